@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { GeocodingResponse } from "@/types/weather";
+import { searchLocations, GeocodingError } from "@/lib/geocoding";
+import { parseLocationQuery, LOCATION_QUERY_HINT } from "@/lib/locationQuery";
+
+// Number of suggestions returned when the client doesn't ask for a count
+const DEFAULT_RESULT_COUNT = 8;
+const MAX_RESULT_COUNT = 20;
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const query = searchParams.get("q")?.trim();
+  const requestedCount = Number(searchParams.get("count") ?? DEFAULT_RESULT_COUNT);
+
+  if (!query) {
+    return NextResponse.json({ error: "Query parameter is required" }, { status: 400 });
+  }
+
+  const locationQuery = parseLocationQuery(query);
+
+  if (!locationQuery) {
+    return NextResponse.json({ error: LOCATION_QUERY_HINT }, { status: 400 });
+  }
+
+  const count = Number.isInteger(requestedCount)
+    ? Math.max(1, Math.min(MAX_RESULT_COUNT, requestedCount))
+    : DEFAULT_RESULT_COUNT;
+
+  try {
+    const results = await searchLocations(locationQuery, count);
+    const response: GeocodingResponse = { results };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof GeocodingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Open-Meteo geocoding error:", error);
+    return NextResponse.json(
+      { error: "Failed to search locations" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
 import type {
   WeatherData,
-  GeocodingResponse,
+  PlaceName,
   OpenMeteoForecast,
+  HourlyForecast,
+  DailyForecast,
 } from "@/types/weather";
 import { getWeatherDescription } from "@/lib/wmoCode";
 import { getBiome } from "@/lib/biomeDetector";
+import {
+  searchLocations,
+  getLocationById,
+  reverseGeocode,
+  GeocodingError,
+} from "@/lib/geocoding";
+import { isValidCoordinates, formatCoordinates } from "@/lib/coordinates";
+import { parseLocationQuery, LOCATION_QUERY_HINT } from "@/lib/locationQuery";
 
 // Convert Celsius to Fahrenheit
 function celsiusToFahrenheit(celsius: number): number {
@@ -17,45 +27,155 @@ function kmhToMph(kmh: number): number {
   return kmh * 0.621371;
 }
 
+const CURRENT_FIELDS =
+  "temperature_2m,relative_humidity_2m,apparent_temperature,weather_code,wind_speed_10m,wind_direction_10m";
+const HOURLY_FIELDS =
+  "temperature_2m,relative_humidity_2m,weather_code,precipitation_probability,wind_speed_10m,wind_direction_10m";
+const DAILY_FIELDS =
+  "weather_code,temperature_2m_max,temperature_2m_min,precipitation_probability_max,wind_speed_10m_max,wind_direction_10m_dominant,sunrise,sunset";
+
+// A place resolved from any of the supported inputs (q, id, lat/lon)
+interface ResolvedLocation extends PlaceName {
+  latitude: number;
+  longitude: number;
+}
+
+// Forecast window returned to the client
+const FORECAST_HOURS = 48;
+const FORECAST_DAYS = 7;
+
+// Hourly entries from the current local hour onwards
+function transformHourlyForecast(weatherData: OpenMeteoForecast): HourlyForecast[] {
+  const { hourly } = weatherData;
+  const currentHour = `${weatherData.current.time.slice(0, 13)}:00`;
+  const startIndex = Math.max(
+    0,
+    hourly.time.findIndex((time) => time >= currentHour)
+  );
+
+  return hourly.time.slice(startIndex, startIndex + FORECAST_HOURS).map((time, offset) => {
+    const i = startIndex + offset;
+    return {
+      time,
+      temp_c: Math.round(hourly.temperature_2m[i]),
+      temp_f: Math.round(celsiusToFahrenheit(hourly.temperature_2m[i])),
+      condition: {
+        text: getWeatherDescription(hourly.weather_code[i]),
+        code: hourly.weather_code[i],
+      },
+      precipitation_probability: hourly.precipitation_probability[i] ?? 0,
+      humidity: hourly.relative_humidity_2m[i],
+      wind_kph: Math.round(hourly.wind_speed_10m[i]),
+      wind_mph: Math.round(kmhToMph(hourly.wind_speed_10m[i])),
+      wind_dir: hourly.wind_direction_10m[i],
+    };
+  });
+}
+
+function transformDailyForecast(weatherData: OpenMeteoForecast): DailyForecast[] {
+  const { daily } = weatherData;
+
+  return daily.time.map((date, i) => ({
+    date,
+    max_temp_c: Math.round(daily.temperature_2m_max[i]),
+    max_temp_f: Math.round(celsiusToFahrenheit(daily.temperature_2m_max[i])),
+    min_temp_c: Math.round(daily.temperature_2m_min[i]),
+    min_temp_f: Math.round(celsiusToFahrenheit(daily.temperature_2m_min[i])),
+    condition: {
+      text: getWeatherDescription(daily.weather_code[i]),
+      code: daily.weather_code[i],
+    },
+    precipitation_probability: daily.precipitation_probability_max[i] ?? 0,
+    max_wind_kph: Math.round(daily.wind_speed_10m_max[i]),
+    max_wind_mph: Math.round(kmhToMph(daily.wind_speed_10m_max[i])),
+    wind_dir: daily.wind_direction_10m_dominant[i],
+    sun: {
+      sunrise: daily.sunrise[i],
+      sunset: daily.sunset[i],
+    },
+  }));
+}
+
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
-  const query = searchParams.get("q");
+  const query = searchParams.get("q")?.trim();
+  const idParam = searchParams.get("id");
+  const latParam = searchParams.get("lat");
+  const lonParam = searchParams.get("lon");
+  const hasCoordinates = latParam !== null || lonParam !== null;
 
-  if (!query) {
+  if (!query && !idParam && !hasCoordinates) {
     return NextResponse.json({ error: "Query parameter is required" }, { status: 400 });
   }
 
-  try {
-    // Step 1: Geocode the query to get coordinates
-    const geocodingUrl = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(
-      query
-    )}&count=1&language=en&format=json`;
+  const locationId = idParam ? Number(idParam) : null;
 
-    const geocodingResponse = await fetch(geocodingUrl);
+  if (locationId !== null && (!Number.isInteger(locationId) || locationId <= 0)) {
+    return NextResponse.json({ error: "Invalid location id" }, { status: 400 });
+  }
 
-    if (!geocodingResponse.ok) {
-      return NextResponse.json(
-        { error: "Failed to geocode location" },
-        { status: geocodingResponse.status }
-      );
-    }
+  // Same rules as the search bar; only checked when q is what we'll geocode
+  const locationQuery = query ? parseLocationQuery(query) : null;
 
-    const geocodingData: GeocodingResponse = await geocodingResponse.json();
+  if (query && !idParam && !hasCoordinates && !locationQuery) {
+    return NextResponse.json({ error: LOCATION_QUERY_HINT }, { status: 400 });
+  }
 
-    if (!geocodingData.results || geocodingData.results.length === 0) {
+  const lat = Number(latParam);
+  const lon = Number(lonParam);
+
+  if (hasCoordinates && (!latParam || !lonParam || !isValidCoordinates(lat, lon))) {
+    return NextResponse.json(
+      { error: "Invalid coordinates. Latitude must be -90 to 90 and longitude -180 to 180." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Step 1: Resolve the location
+    // - coordinates: no forward geocoding, reverse lookup for a display name
+    // - id: the exact place the user picked from suggestions
+    // - q: geocode the query and take the best match
+    let location: ResolvedLocation | null = null;
+
+    if (hasCoordinates) {
+      const place = await reverseGeocode(lat, lon);
+      location = {
+        name: place?.name ?? formatCoordinates(lat, lon),
+        region: place?.region ?? "",
+        country: place?.country ?? "",
+        latitude: lat,
+        longitude: lon,
+      };
+    } else {
+      const result =
+        locationId !== null
+          ? await getLocationById(locationId)
+          : (await searchLocations(locationQuery!, 1))[0];
+
+      if (result) {
+        location = {
+          name: result.name,
+          region: result.admin1 || "",
+          country: result.country,
+          latitude: result.latitude,
+          longitude: result.longitude,
+        };
+      }
+    }
+
+    if (!location) {
       return NextResponse.json(
         { error: "Location not found. Please try a different search term." },
         { status: 404 }
       );
     }
 
-    const location = geocodingData.results[0];
-
     // Step 2: Detect biome for the location using MODIS satellite data grid
     const biome = getBiome(location.latitude, location.longitude);
 
     // Step 3: Fetch weather data for the coordinates
-    const weatherUrl = `https://api.open-meteo.com/v1/forecast?latitude=${location.latitude}&longitude=${location.longitude}&current=temperature_2m,relative_humidity_2m,apparent_temperature,weather_code,wind_speed_10m,wind_direction_10m&temperature_unit=celsius&wind_speed_unit=kmh&timezone=auto`;
+    const weatherUrl = `https://api.open-meteo.com/v1/forecast?latitude=${location.latitude}&longitude=${location.longitude}&current=${CURRENT_FIELDS}&hourly=${HOURLY_FIELDS}&daily=${DAILY_FIELDS}&forecast_days=${FORECAST_DAYS}&temperature_unit=celsius&wind_speed_unit=kmh&timezone=auto`;
 
     const weatherResponse = await fetch(weatherUrl);
 
@@ -69,10 +189,15 @@ export async function GET(request: NextRequest) {
     const weatherData: OpenMeteoForecast = await weatherResponse.json();
 
     // Step 4: Transform to our unified WeatherData format
+    const dailyForecast = transformDailyForecast(weatherData);
+    const today =
+      dailyForecast.find((day) => day.date === weatherData.current.time.slice(0, 10)) ??
+      dailyForecast[0];
+
     const transformedData: WeatherData = {
       location: {
         name: location.name,
-        region: location.admin1 || "",
+        region: location.region,
         country: location.country,
         localtime: weatherData.current.time,
       },
@@ -90,6 +215,11 @@ export async function GET(request: NextRequest) {
         feelslike_c: Math.round(weatherData.current.apparent_temperature),
         feelslike_f: Math.round(celsiusToFahrenheit(weatherData.current.apparent_temperature)),
       },
+      sun: today.sun,
+      forecast: {
+        hourly: transformHourlyForecast(weatherData),
+        daily: dailyForecast,
+      },
       biome: {
         type: biome,
         coordinates: {
@@ -101,6 +231,10 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json(transformedData);
   } catch (error) {
+    if (error instanceof GeocodingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     console.error("Open-Meteo API error:", error);
     return NextResponse.json(
       { error: "Failed to fetch weather data" },
@@ -0,0 +1,22 @@
+import { notFound } from "next/navigation";
+import Home from "../../page";
+import { parseCoordinates } from "@/lib/coordinates";
+
+interface CoordinatesPageProps {
+  params: Promise<{ coords: string }>;
+}
+
+/**
+ * Deep link to coordinates (/at/{lat},{lon}).
+ * Home reads the location from the URL itself; this route only rejects
+ * malformed links before rendering it.
+ */
+export default async function CoordinatesPage({ params }: CoordinatesPageProps) {
+  const { coords } = await params;
+
+  if (!parseCoordinates(decodeURIComponent(coords))) {
+    notFound();
+  }
+
+  return <Home />;
+}
@@ -1,56 +1,226 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useMemo, useCallback } from "react";
 import { motion } from "framer-motion";
 import SearchBar from "@/components/SearchBar";
+import GeolocationButton from "@/components/GeolocationButton";
 import WeatherDisplay from "@/components/WeatherDisplay";
 import BackgroundManager from "@/components/BackgroundManager";
 import StartAudioButton from "@/components/StartAudioButton";
 import AudioControls from "@/components/AudioControls";
+import ForecastTimeline from "@/components/ForecastTimeline";
 import { useAudio } from "@/components/AudioProvider";
-import { getWeather } from "@/lib/weather";
-import type { WeatherData } from "@/types/weather";
-import { getTimeOfDay, getBiomeImagePath } from "@/lib/biomeUtils";
+import {
+  getWeather,
+  getWeatherForLocation,
+  getWeatherByCoordinates,
+  getWeatherForTarget,
+  WEATHER_REFRESH_INTERVAL,
+} from "@/lib/weather";
+import { advanceWeatherClock, getForecastWeather } from "@/lib/weatherClock";
+import { getCurrentPosition } from "@/lib/geolocation";
+import { formatLocationQuery } from "@/lib/locationQuery";
+import { buildLocationUrl, parseLocationUrl } from "@/lib/locationUrl";
+import type { LocationTarget } from "@/lib/locationUrl";
+import type { Coordinates } from "@/lib/coordinates";
+import type { WeatherData, GeocodingResult } from "@/types/weather";
+import { getTimeOfDay, getWeatherImagePath } from "@/lib/biomeUtils";
 import { blurIn } from "@/lib/animations";
 
+// How often to check the local clock and whether a refresh is due
+const CLOCK_TICK_INTERVAL = 30 * 1000;
+
+// Quicker crossfades while stepping through the forecast
+const TIMELINE_TRANSITION = { fadeOutDuration: 1.5, fadeInDuration: 1.5 };
+
 export default function Home() {
   const [weatherData, setWeatherData] = useState<WeatherData | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { updateSoundscape, isReady } = useAudio();
+  // Forecast hour being previewed, or null for live weather
+  const [timelineTime, setTimelineTime] = useState<string | null>(null);
+  const { updateSoundscape } = useAudio();
+
+  // Incremented per request so a slow response can't overwrite a newer one
+  // (e.g. when stepping quickly through history)
+  const requestIdRef = useRef(0);
+
+  // Weather as last fetched and when, for the local clock and auto-refresh
+  const fetchedRef = useRef<{ data: WeatherData; at: number } | null>(null);
+  const lastRefreshRef = useRef(0);
+
+  // What's shown and heard: live weather, or the forecast hour being previewed
+  // (back to live if a refresh has moved past that hour)
+  const displayedWeather = useMemo(() => {
+    const hour = weatherData?.forecast.hourly.find((entry) => entry.time === timelineTime);
+    return weatherData && hour ? getForecastWeather(weatherData, hour) : weatherData;
+  }, [weatherData, timelineTime]);
+  const isPreviewing = displayedWeather !== weatherData;
 
-  // Calculate background image based on biome, time of day, and location coordinates
+  // Calculate background image based on biome, time of day, weather, and location coordinates
   // Location coordinates ensure deterministic image selection - same location = same image
-  const backgroundImage = weatherData
-    ? getBiomeImagePath(
-        weatherData.biome.type,
-        getTimeOfDay(weatherData.location.localtime),
-        weatherData.biome.coordinates.lat,
-        weatherData.biome.coordinates.lon
-      )
+  // Weather condition picks rain/snow/fog/storm variants when the biome has them
+  const backgroundImage = displayedWeather
+    ? getWeatherImagePath(displayedWeather)
     : "/images/backgrounds/field/field-day-1.jpg"; // Default fallback
 
-  const handleSearch = async (query: string) => {
-    setIsLoading(true);
-    setError(null);
+  // fetchWeather gets a check for whether this is still the latest request,
+  // for side effects after its own awaits (e.g. recording the URL)
+  const loadWeather = useCallback(
+    async (fetchWeather: (isLatest: () => boolean) => Promise<WeatherData>) => {
+      const requestId = ++requestIdRef.current;
+      const isLatest = () => requestId === requestIdRef.current;
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const data = await fetchWeather(isLatest);
+        if (!isLatest()) return;
+        fetchedRef.current = { data, at: Date.now() };
+        lastRefreshRef.current = Date.now();
+        setWeatherData(data);
+        setTimelineTime(null);
+      } catch (err) {
+        if (!isLatest()) return;
+        setError(err instanceof Error ? err.message : "Failed to fetch weather data");
+        fetchedRef.current = null;
+        setWeatherData(null);
+      } finally {
+        if (isLatest()) {
+          setIsLoading(false);
+        }
+      }
+    },
+    []
+  );
+
+  // Load whatever location a URL points to (initial load and back/forward)
+  const loadFromUrl = useCallback(() => {
+    const target = parseLocationUrl(window.location.pathname, window.location.search);
+
+    if (!target) {
+      // Back to the bare landing page
+      requestIdRef.current++;
+      fetchedRef.current = null;
+      setWeatherData(null);
+      setTimelineTime(null);
+      setError(null);
+      setIsLoading(false);
+      return;
+    }
+
+    loadWeather(() => getWeatherForTarget(target));
+  }, [loadWeather]);
+
+  // Refetch the shown location in place - no loading state, and on failure
+  // the current weather stays up until the next attempt
+  const refreshWeather = useCallback(async () => {
+    const target = parseLocationUrl(window.location.pathname, window.location.search);
+    if (!target || !fetchedRef.current) return;
+
+    const requestId = requestIdRef.current;
+    lastRefreshRef.current = Date.now();
 
     try {
-      const data = await getWeather(query);
+      const data = await getWeatherForTarget(target);
+      if (requestId !== requestIdRef.current) return;
+      fetchedRef.current = { data, at: Date.now() };
       setWeatherData(data);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to fetch weather data");
-      setWeatherData(null);
-    } finally {
-      setIsLoading(false);
+      console.warn("Failed to refresh weather:", err);
+    }
+  }, []);
+
+  // Move the shown weather to the location's current time, but only
+  // re-render (and re-mix) when that crosses into a new time of day
+  const advanceClock = useCallback(() => {
+    const fetched = fetchedRef.current;
+    if (!fetched) return;
+
+    const advanced = advanceWeatherClock(fetched.data, Date.now() - fetched.at);
+    const timeOfDay = getTimeOfDay(advanced.location.localtime, advanced.sun);
+
+    setWeatherData((current) =>
+      current &&
+      current.location.name === advanced.location.name &&
+      getTimeOfDay(current.location.localtime, current.sun) !== timeOfDay
+        ? advanced
+        : current
+    );
+  }, []);
+
+  // Record a search in the address bar so it can be shared and revisited
+  const pushLocationUrl = (target: LocationTarget) => {
+    const url = buildLocationUrl(target);
+    if (url !== window.location.pathname + window.location.search) {
+      window.history.pushState(null, "", url);
     }
   };
 
-  // Update soundscape when weather data changes and audio is ready
+  const handleSearch = (query: string) => {
+    pushLocationUrl({ type: "query", query });
+    loadWeather(() => getWeather(query));
+  };
+
+  // Suggestion picked from the dropdown - fetch by id so the exact place is used;
+  // the URL gets a qualified query that resolves back to the same place
+  const handleSelectLocation = (location: GeocodingResult) => {
+    pushLocationUrl({ type: "query", query: formatLocationQuery(location) });
+    loadWeather(() => getWeatherForLocation(location));
+  };
+
+  const handleSearchCoordinates = (coordinates: Coordinates) => {
+    pushLocationUrl({ type: "coordinates", coordinates });
+    loadWeather(() => getWeatherByCoordinates(coordinates.lat, coordinates.lon));
+  };
+
+  // Browser position → weather; permission/timeout errors surface in the error panel
+  const handleLocate = () =>
+    loadWeather(async (isLatest) => {
+      const coordinates = await getCurrentPosition();
+      // A search made while locating has already taken over the URL
+      if (isLatest()) {
+        pushLocationUrl({ type: "coordinates", coordinates });
+      }
+      return getWeatherByCoordinates(coordinates.lat, coordinates.lon);
+    });
+
+  // Deep links: fetch on load, and follow browser back/forward between searches
+  useEffect(() => {
+    loadFromUrl();
+    window.addEventListener("popstate", loadFromUrl);
+    return () => window.removeEventListener("popstate", loadFromUrl);
+  }, [loadFromUrl]);
+
+  // Keep up with the location: follow its clock, and refetch once the weather
+  // is stale (only while the tab is visible - the clock keeps running hidden)
+  useEffect(() => {
+    const isRefreshDue = () =>
+      WEATHER_REFRESH_INTERVAL > 0 &&
+      document.visibilityState === "visible" &&
+      Date.now() - lastRefreshRef.current >= WEATHER_REFRESH_INTERVAL;
+
+    const tick = () => {
+      advanceClock();
+      if (isRefreshDue()) {
+        refreshWeather();
+      }
+    };
+
+    const interval = setInterval(tick, CLOCK_TICK_INTERVAL);
+    document.addEventListener("visibilitychange", tick);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", tick);
+    };
+  }, [advanceClock, refreshWeather]);
+
+  // Update soundscape when weather data changes (queued until audio starts)
   useEffect(() => {
-    if (weatherData && isReady) {
-      updateSoundscape(weatherData);
+    if (displayedWeather) {
+      updateSoundscape(displayedWeather, isPreviewing ? TIMELINE_TRANSITION : undefined);
     }
-  }, [weatherData, isReady, updateSoundscape]);
+  }, [displayedWeather, isPreviewing, updateSoundscape]);
 
   return (
     <>
@@ -73,13 +243,19 @@ export default function Home() {
 
         {/* Search Bar */}
         <motion.div
-          className="flex justify-center"
+          className="flex justify-center items-start gap-2"
           variants={blurIn}
           initial="hidden"
           animate="visible"
           custom={0.5}
         >
-          <SearchBar onSearch={handleSearch} isLoading={isLoading} />
+          <SearchBar
+            onSearch={handleSearch}
+            onSelectLocation={handleSelectLocation}
+            onSearchCoordinates={handleSearchCoordinates}
+            isLoading={isLoading}
+          />
+          <GeolocationButton onLocate={handleLocate} isLoading={isLoading} />
         </motion.div>
 
         {/* Loading State */}
@@ -101,9 +277,14 @@ export default function Home() {
         )}
 
         {/* Weather Display */}
-        {weatherData && !isLoading && (
-          <div className="flex justify-center animate-in fade-in duration-500">
-            <WeatherDisplay data={weatherData} />
+        {weatherData && displayedWeather && !isLoading && (
+          <div className="flex flex-col items-center gap-8 animate-in fade-in duration-500">
+            <WeatherDisplay data={displayedWeather} />
+            <ForecastTimeline
+              hourly={weatherData.forecast.hourly}
+              selectedTime={isPreviewing ? timelineTime : null}
+              onSelect={setTimelineTime}
+            />
           </div>
         )}
 
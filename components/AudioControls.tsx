@@ -1,6 +1,10 @@
 "use client";
 
+import { useState } from "react";
 import { useAudio } from "./AudioProvider";
+import MixerPanel from "./MixerPanel";
+import ExportSoundscapeButton from "./ExportSoundscapeButton";
+import SleepTimerButton from "./SleepTimerButton";
 
 /**
  * Format biome name for display
@@ -21,12 +25,24 @@ function formatBiomeName(biome: string | null): string {
  * Features:
  * - Simple volume slider
  * - Mute toggle
+ * - Expandable per-layer mixer
  * - Current biome indicator
+ * - Sleep timer, with resume once it has stopped the soundscape
+ * - Download of the current soundscape
  * - Matches page design style
  */
 export default function AudioControls() {
-  const { isReady, isMuted, volume, setVolume, toggleMute, currentBiome } =
-    useAudio();
+  const {
+    isReady,
+    isMuted,
+    volume,
+    setVolume,
+    toggleMute,
+    currentBiome,
+    isAsleep,
+    resumeSoundscape,
+  } = useAudio();
+  const [isMixerOpen, setIsMixerOpen] = useState(false);
 
   // Don't render until audio is ready
   if (!isReady) {
@@ -43,6 +59,28 @@ export default function AudioControls() {
                    border border-accent-secondary/30 dark:border-dark-accent-secondary/30
                    min-w-[320px] md:min-w-[400px]"
       >
+        {/* Per-layer Mixer */}
+        {isMixerOpen && <MixerPanel />}
+
+        {/* Stopped by the sleep timer */}
+        {isAsleep && (
+          <div className="flex items-center justify-between gap-4 mb-3">
+            <span className="text-sm text-text-secondary dark:text-dark-text-secondary">
+              Sleep timer ended
+            </span>
+            <button
+              onClick={resumeSoundscape}
+              className="px-3 py-1.5 rounded-lg text-sm
+                         bg-accent-secondary dark:bg-dark-accent-secondary
+                         hover:bg-accent-primary dark:hover:bg-dark-accent-primary
+                         text-text-primary dark:text-dark-text-primary
+                         transition-colors"
+            >
+              Resume
+            </button>
+          </div>
+        )}
+
         <div className="flex items-center gap-4">
           {/* Mute Toggle */}
           <button
@@ -133,6 +171,45 @@ export default function AudioControls() {
               {formatBiomeName(currentBiome)}
             </div>
           </div>
+
+          {/* Mixer Toggle */}
+          <button
+            onClick={() => setIsMixerOpen((open) => !open)}
+            className={`flex-shrink-0 p-2 rounded-lg
+                       bg-surface dark:bg-dark-surface
+                       border hover:border-accent-primary dark:hover:border-dark-accent-primary
+                       text-text-primary dark:text-dark-text-primary
+                       transition-colors
+                       ${
+                         isMixerOpen
+                           ? "border-accent-primary dark:border-dark-accent-primary"
+                           : "border-accent-secondary/30 dark:border-dark-accent-secondary/30"
+                       }`}
+            aria-label={isMixerOpen ? "Hide mixer" : "Show mixer"}
+            aria-expanded={isMixerOpen}
+            title="Mixer"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              fill="none"
+              viewBox="0 0 24 24"
+              strokeWidth={1.5}
+              stroke="currentColor"
+              className="w-5 h-5"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                d="M10.5 6h9.75M10.5 6a1.5 1.5 0 1 1-3 0m3 0a1.5 1.5 0 1 0-3 0M3.75 6H7.5m3 12h9.75m-9.75 0a1.5 1.5 0 0 1-3 0m3 0a1.5 1.5 0 0 0-3 0m-3.75 0H7.5m9-6h3.75m-3.75 0a1.5 1.5 0 0 1-3 0m3 0a1.5 1.5 0 0 0-3 0m-9.75 0h9.75"
+              />
+            </svg>
+          </button>
+
+          {/* Sleep Timer */}
+          <SleepTimerButton />
+
+          {/* Export (nothing to render while asleep) */}
+          {!isAsleep && <ExportSoundscapeButton />}
         </div>
       </div>
     </div>
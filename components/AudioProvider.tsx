@@ -9,8 +9,16 @@ import {
   useRef,
 } from "react";
 import { getAudioController } from "@/lib/audioController";
+import type { SoundscapeTransitionConfig } from "@/lib/audioController";
+import { formatBiomeForDisplay, getWeatherImagePath } from "@/lib/biomeUtils";
+import {
+  DEFAULT_AUDIO_PREFERENCES,
+  loadAudioPreferences,
+  saveAudioPreferences,
+} from "@/lib/preferences";
 import type { BiomeType } from "@/lib/biomeDetector";
 import type { WeatherData } from "@/types/weather";
+import type { LayerMix, OfflineRenderOptions, SoundLayer } from "@/types/audio";
 
 interface AudioContextType {
   // State
@@ -18,28 +26,90 @@ interface AudioContextType {
   isMuted: boolean;
   volume: number;
   isLoading: boolean;
+  /** Combined progress (0-1) of the files needed to start, while isLoading */
+  loadProgress: number;
   currentBiome: BiomeType | null;
+  /** Name of the place the current soundscape is for */
+  currentLocation: string | null;
   hasInteracted: boolean;
+  /** When the sleep timer stops the soundscape (epoch ms), or null if not set */
+  sleepTimerEnd: number | null;
+  /** True once the sleep timer has stopped the soundscape, until resumed */
+  isAsleep: boolean;
+  /** Layers of the current soundscape */
+  soundLayers: SoundLayer[];
+  /** Mixer overrides by sound ID (untouched sounds are absent) */
+  layerMix: Record<string, LayerMix>;
+  /** Last sleep timer length in minutes (null if never set) */
+  sleepTimerMinutes: number | null;
+  /** Whether weather/biome effects (muffling, reverb) are applied */
+  effectsEnabled: boolean;
 
   // Methods
   initialize: () => Promise<void>;
   toggleMute: () => void;
+  setMuted: (muted: boolean) => void;
   setVolume: (volume: number) => void;
-  updateSoundscape: (weatherData: WeatherData) => void;
+  /** Move to new weather, optionally with custom crossfade timing */
+  updateSoundscape: (
+    weatherData: WeatherData,
+    transition?: Partial<SoundscapeTransitionConfig>
+  ) => void;
+  /** Render the current soundscape to a WAV file (duration in seconds) */
+  exportSoundscape: (
+    duration: number,
+    options?: Omit<OfflineRenderOptions, "duration">
+  ) => Promise<Blob>;
+  /** Fade out and stop the soundscape after a number of minutes */
+  startSleepTimer: (minutes: number) => void;
+  cancelSleepTimer: () => void;
+  /** Restart the soundscape after the sleep timer stopped it */
+  resumeSoundscape: () => void;
+  setLayerMix: (soundId: string, changes: Partial<LayerMix>) => void;
+  resetMix: () => void;
+  setEffectsEnabled: (enabled: boolean) => void;
 }
 
 const AudioContext = createContext<AudioContextType | undefined>(undefined);
 
+/**
+ * Register a Media Session action, skipping actions the browser doesn't support
+ */
+function setMediaActionHandler(action: MediaSessionAction, handler: MediaSessionActionHandler | null) {
+  try {
+    navigator.mediaSession.setActionHandler(action, handler);
+  } catch {
+    // Unsupported action
+  }
+}
+
 export function AudioProvider({ children }: { children: React.ReactNode }) {
   const [isReady, setIsReady] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
-  const [volume, setVolumeState] = useState(0.7); // Default 70% volume
+  // Paused from media keys or the lock screen: silent like mute, but not saved
+  const [isPaused, setIsPaused] = useState(false);
+  const [volume, setVolumeState] = useState(DEFAULT_AUDIO_PREFERENCES.volume);
   const [isLoading, setIsLoading] = useState(false);
+  const [loadProgress, setLoadProgress] = useState(0);
   const [currentBiome, setCurrentBiome] = useState<BiomeType | null>(null);
+  const [currentLocation, setCurrentLocation] = useState<string | null>(null);
+  const [currentWeather, setCurrentWeather] = useState<WeatherData | null>(null);
   const [hasInteracted, setHasInteracted] = useState(false);
+  const [sleepTimerEnd, setSleepTimerEnd] = useState<number | null>(null);
+  const [isAsleep, setIsAsleep] = useState(false);
+  const [soundLayers, setSoundLayers] = useState<SoundLayer[]>([]);
+  const [layerMix, setLayerMixState] = useState<Record<string, LayerMix>>({});
+  const [sleepTimerMinutes, setSleepTimerMinutes] = useState<number | null>(null);
+  const [effectsEnabled, setEffectsEnabledState] = useState(
+    DEFAULT_AUDIO_PREFERENCES.effectsEnabled
+  );
 
   const controllerRef = useRef(getAudioController());
   const initializationPromiseRef = useRef<Promise<void> | null>(null);
+  // Weather received before the audio system was ready (or while asleep),
+  // applied on initialize / resume
+  const pendingWeatherRef = useRef<WeatherData | null>(null);
+  const lastAppliedWeatherRef = useRef<WeatherData | null>(null);
 
   /**
    * Initialize audio system (must be called from user interaction)
@@ -56,26 +126,61 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
     }
 
     setIsLoading(true);
+    setLoadProgress(0);
     const controller = controllerRef.current;
 
+    // Track the files the current soundscape needs to start (critical priority)
+    const criticalProgress = new Map<string, number>();
+    const stopListening = controller.onLoadProgress((event) => {
+      if (event.priority !== "critical") return;
+
+      criticalProgress.set(event.soundId, event.status === "failed" ? 1 : event.progress);
+      const total = Array.from(criticalProgress.values()).reduce((sum, p) => sum + p, 0);
+      setLoadProgress(total / criticalProgress.size);
+    });
+
     const initPromise = (async () => {
       try {
         // Initialize audio context
         await controller.initialize();
 
-        // Preload all audio files
-        await controller.preloadSounds();
+        // Restore saved settings before anything plays
+        const preferences = loadAudioPreferences();
+        controller.setMasterVolume(preferences.volume);
+        controller.setMuted(preferences.muted);
+        controller.setMix(preferences.layerMix);
+        controller.setEffectsEnabled(preferences.effectsEnabled, 0);
+
+        setVolumeState(preferences.volume);
+        setIsMuted(preferences.muted);
+        setLayerMixState(controller.getMix());
+        setSleepTimerMinutes(preferences.sleepTimerMinutes);
+        setEffectsEnabledState(preferences.effectsEnabled);
 
-        // Set initial volume
-        controller.setMasterVolume(volume);
+        // Start with the current location's base layers; the rest fade in as they load
+        const pendingWeather = pendingWeatherRef.current;
+        if (pendingWeather) {
+          pendingWeatherRef.current = null;
+          lastAppliedWeatherRef.current = pendingWeather;
+          await controller.updateSoundscape(pendingWeather);
+          setCurrentBiome(pendingWeather.biome.type);
+          setCurrentLocation(pendingWeather.location.name);
+          setCurrentWeather(pendingWeather);
+        }
 
         setIsReady(true);
         setHasInteracted(true);
         console.log("Audio system ready");
+
+        // Fetch everything else in the background for instant biome changes
+        controller.preloadSounds().catch((error) => {
+          console.warn("Background preload failed:", error);
+        });
       } catch (error) {
         console.error("Failed to initialize audio:", error);
         throw error;
       } finally {
+        stopListening();
         setIsLoading(false);
         initializationPromiseRef.current = null;
       }
@@ -83,7 +188,7 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
 
     initializationPromiseRef.current = initPromise;
     return initPromise;
-  }, [isReady, volume]);
+  }, [isReady]);
 
   /**
    * Toggle mute state
@@ -94,8 +199,26 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
     const controller = controllerRef.current;
     const newMuteState = controller.toggleMute();
     setIsMuted(newMuteState);
+    setIsPaused(false);
+    saveAudioPreferences({ muted: newMuteState });
   }, [isReady]);
 
+  /**
+   * Mute or unmute
+   */
+  const setMuted = useCallback(
+    (muted: boolean) => {
+      if (!isReady) return;
+
+      const controller = controllerRef.current;
+      controller.setMuted(muted);
+      setIsMuted(muted);
+      setIsPaused(false);
+      saveAudioPreferences({ muted });
+    },
+    [isReady]
+  );
+
   /**
    * Set volume level (0-1)
    */
@@ -107,28 +230,192 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
       if (isReady) {
         const controller = controllerRef.current;
         controller.setMasterVolume(clampedVolume);
+        saveAudioPreferences({ volume: clampedVolume });
       }
     },
     [isReady]
   );
 
   /**
-   * Update soundscape based on weather data
+   * Update soundscape based on weather data.
+   * Before initialization the data is kept and applied once audio starts.
    */
   const updateSoundscape = useCallback(
-    (weatherData: WeatherData) => {
-      if (!isReady) {
-        console.warn("Cannot update soundscape: audio not initialized");
+    (weatherData: WeatherData, transition?: Partial<SoundscapeTransitionConfig>) => {
+      // Don't wake a sleeping listener with a refresh or a new search
+      if (!isReady || isAsleep) {
+        pendingWeatherRef.current = weatherData;
         return;
       }
 
+      // Already applied during initialization
+      if (lastAppliedWeatherRef.current === weatherData) return;
+      lastAppliedWeatherRef.current = weatherData;
+
       const controller = controllerRef.current;
-      controller.updateSoundscape(weatherData);
+      controller.updateSoundscape(weatherData, transition);
       setCurrentBiome(weatherData.biome.type);
+      setCurrentLocation(weatherData.location.name);
+      setCurrentWeather(weatherData);
+    },
+    [isReady, isAsleep]
+  );
+
+  /**
+   * Render the current soundscape offline for download
+   */
+  const exportSoundscape = useCallback(
+    (duration: number, options?: Omit<OfflineRenderOptions, "duration">) => {
+      if (!isReady) {
+        return Promise.reject(new Error("Audio not initialized"));
+      }
+
+      const controller = controllerRef.current;
+      return controller.exportSoundscape(duration, options);
+    },
+    [isReady]
+  );
+
+  // Mirror the controller's sleep timer, which outlives this component's renders
+  useEffect(() => {
+    const controller = controllerRef.current;
+    setSleepTimerEnd(controller.getSleepTimerEnd());
+
+    return controller.onSleepTimerChange(({ endsAt, completed }) => {
+      setSleepTimerEnd(endsAt);
+      if (completed) {
+        setIsAsleep(true);
+      }
+    });
+  }, []);
+
+  // Follow the controller's layers and mixer, which outlive this component's renders
+  useEffect(() => {
+    const controller = controllerRef.current;
+    setSoundLayers(controller.getCurrentSoundscape());
+    setLayerMixState(controller.getMix());
+
+    return controller.onSoundscapeChange(setSoundLayers);
+  }, []);
+
+  /**
+   * Change one layer's mixer settings (volume trim, mute, solo)
+   */
+  const setLayerMix = useCallback((soundId: string, changes: Partial<LayerMix>) => {
+    const controller = controllerRef.current;
+    controller.setLayerMix(soundId, changes);
+    setLayerMixState(controller.getMix());
+    saveAudioPreferences({ layerMix: controller.getMix() });
+  }, []);
+
+  /**
+   * Clear every mixer override
+   */
+  const resetMix = useCallback(() => {
+    const controller = controllerRef.current;
+    controller.resetMix();
+    setLayerMixState(controller.getMix());
+    saveAudioPreferences({ layerMix: {} });
+  }, []);
+
+  /**
+   * Turn weather/biome effects on or off
+   */
+  const setEffectsEnabled = useCallback((enabled: boolean) => {
+    const controller = controllerRef.current;
+    controller.setEffectsEnabled(enabled);
+    setEffectsEnabledState(enabled);
+    saveAudioPreferences({ effectsEnabled: enabled });
+  }, []);
+
+  /**
+   * Start the sleep timer (restarts it if already running)
+   */
+  const startSleepTimer = useCallback(
+    (minutes: number) => {
+      if (!isReady || !(minutes > 0)) return;
+
+      const controller = controllerRef.current;
+      controller.startSleepTimer(minutes * 60);
+      setSleepTimerMinutes(minutes);
+      saveAudioPreferences({ sleepTimerMinutes: minutes });
     },
     [isReady]
   );
 
+  /**
+   * Cancel the sleep timer
+   */
+  const cancelSleepTimer = useCallback(() => {
+    const controller = controllerRef.current;
+    controller.cancelSleepTimer();
+  }, []);
+
+  /**
+   * Restart the soundscape after the sleep timer stopped it,
+   * with the latest weather received meanwhile
+   */
+  const resumeSoundscape = useCallback(() => {
+    if (!isAsleep) return;
+    setIsAsleep(false);
+
+    const weatherData = pendingWeatherRef.current ?? lastAppliedWeatherRef.current;
+    pendingWeatherRef.current = null;
+    if (!weatherData) return;
+
+    lastAppliedWeatherRef.current = weatherData;
+    const controller = controllerRef.current;
+    controller.updateSoundscape(weatherData);
+    setCurrentBiome(weatherData.biome.type);
+    setCurrentLocation(weatherData.location.name);
+    setCurrentWeather(weatherData);
+  }, [isAsleep]);
+
+  // Lock screen / background tab: show where and what's playing
+  useEffect(() => {
+    if (!isReady || !currentWeather || !("mediaSession" in navigator)) return;
+
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: currentWeather.location.name,
+      artist: currentWeather.current.condition.text,
+      album: `Skypin · ${formatBiomeForDisplay(currentWeather.biome.type)}`,
+      artwork: [{ src: new URL(getWeatherImagePath(currentWeather), window.location.origin).href }],
+    });
+  }, [isReady, currentWeather]);
+
+  useEffect(() => {
+    if (!isReady || !("mediaSession" in navigator)) return;
+
+    navigator.mediaSession.playbackState = isMuted || isPaused || isAsleep ? "paused" : "playing";
+  }, [isReady, isMuted, isPaused, isAsleep]);
+
+  // Media keys and lock screen controls pause by muting, so the soundscape
+  // keeps running underneath and resumes instantly. The pause isn't saved
+  // as a mute preference, so the next visit still starts with sound.
+  useEffect(() => {
+    if (!isReady || !("mediaSession" in navigator)) return;
+
+    const pause = () => {
+      controllerRef.current.setMuted(true);
+      setIsPaused(true);
+    };
+
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      [
+        "play",
+        () => {
+          resumeSoundscape();
+          setMuted(false);
+        },
+      ],
+      ["pause", pause],
+      ["stop", pause],
+    ];
+
+    handlers.forEach(([action, handler]) => setMediaActionHandler(action, handler));
+    return () => handlers.forEach(([action]) => setMediaActionHandler(action, null));
+  }, [isReady, resumeSoundscape, setMuted]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -141,15 +428,31 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
 
   const value: AudioContextType = {
     isReady,
-    isMuted,
+    isMuted: isMuted || isPaused,
     volume,
     isLoading,
+    loadProgress,
     currentBiome,
+    currentLocation,
     hasInteracted,
+    sleepTimerEnd,
+    isAsleep,
+    soundLayers,
+    layerMix,
+    sleepTimerMinutes,
+    effectsEnabled,
     initialize,
     toggleMute,
+    setMuted,
     setVolume,
     updateSoundscape,
+    exportSoundscape,
+    startSleepTimer,
+    cancelSleepTimer,
+    resumeSoundscape,
+    setLayerMix,
+    resetMix,
+    setEffectsEnabled,
   };
 
   return (
@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useAudio } from "./AudioProvider";
+
+/**
+ * Recording lengths offered for download (in minutes)
+ */
+const EXPORT_DURATIONS = [10, 30, 60];
+
+function formatDuration(minutes: number): string {
+  return minutes >= 60 ? `${minutes / 60} hour` : `${minutes} min`;
+}
+
+/**
+ * Build a download filename, e.g. "skypin-seattle-60min.wav"
+ */
+function getExportFilename(place: string | null, minutes: number): string {
+  const slug = (place ?? "soundscape")
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+  return `skypin-${slug || "soundscape"}-${minutes}min.wav`;
+}
+
+/**
+ * Save a Blob through a temporary download link
+ */
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Give the browser time to start the download before releasing the data
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * ExportSoundscapeButton - Download the current soundscape as a WAV file
+ *
+ * Features:
+ * - Choice of recording length
+ * - Render progress with cancel
+ * - Renders offline, so playback carries on undisturbed
+ */
+export default function ExportSoundscapeButton() {
+  const { exportSoundscape, currentLocation, currentBiome } = useAudio();
+  const [isOpen, setIsOpen] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop rendering if the controls go away mid-export
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const isExporting = progress !== null;
+
+  const handleExport = async (minutes: number) => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setError(null);
+    setProgress(0);
+
+    try {
+      const wav = await exportSoundscape(minutes * 60, {
+        onProgress: setProgress,
+        signal: abortController.signal,
+      });
+      downloadBlob(wav, getExportFilename(currentLocation ?? currentBiome, minutes));
+      setIsOpen(false);
+    } catch (err) {
+      if (!abortController.signal.aborted) {
+        console.error("Failed to export soundscape:", err);
+        setError("Export failed. Please try again.");
+      }
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  return (
+    <div className="relative flex-shrink-0">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="p-2 rounded-lg
+                   bg-surface dark:bg-dark-surface
+                   border border-accent-secondary/30 dark:border-dark-accent-secondary/30
+                   hover:border-accent-primary dark:hover:border-dark-accent-primary
+                   text-text-primary dark:text-dark-text-primary
+                   transition-colors"
+        aria-label="Download soundscape"
+        aria-expanded={isOpen}
+        title="Download soundscape"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          fill="none"
+          viewBox="0 0 24 24"
+          strokeWidth={1.5}
+          stroke="currentColor"
+          className="w-5 h-5"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5M16.5 12 12 16.5m0 0L7.5 12m4.5 4.5V3"
+          />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute bottom-full right-0 mb-3 w-56 px-4 py-3 rounded-lg
+                     bg-surface dark:bg-dark-surface
+                     border border-accent-secondary/30 dark:border-dark-accent-secondary/30
+                     space-y-3"
+        >
+          {isExporting ? (
+            <>
+              <div className="text-xs text-text-secondary dark:text-dark-text-secondary">
+                Rendering... {Math.round(progress * 100)}%
+              </div>
+              <div
+                className="w-full h-1.5 rounded-full overflow-hidden
+                           bg-accent-secondary/30 dark:bg-dark-accent-secondary/30"
+                role="progressbar"
+                aria-label="Rendering soundscape"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(progress * 100)}
+              >
+                <div
+                  className="h-full bg-accent-primary dark:bg-dark-accent-primary transition-[width] duration-200"
+                  style={{ width: `${Math.round(progress * 100)}%` }}
+                />
+              </div>
+              <button
+                onClick={handleCancel}
+                className="w-full px-3 py-1.5 rounded-lg text-sm
+                           border border-accent-secondary/30 dark:border-dark-accent-secondary/30
+                           hover:border-accent-primary dark:hover:border-dark-accent-primary
+                           text-text-primary dark:text-dark-text-primary
+                           transition-colors"
+              >
+                Cancel
+              </button>
+            </>
+          ) : (
+            <>
+              <div className="text-xs text-text-secondary dark:text-dark-text-secondary">
+                Download as WAV
+              </div>
+              <div className="flex gap-2">
+                {EXPORT_DURATIONS.map((minutes) => (
+                  <button
+                    key={minutes}
+                    onClick={() => handleExport(minutes)}
+                    className="flex-1 px-2 py-1.5 rounded-lg text-sm
+                               bg-accent-secondary/20 dark:bg-dark-accent-secondary/20
+                               hover:bg-accent-primary dark:hover:bg-dark-accent-primary
+                               text-text-primary dark:text-dark-text-primary
+                               transition-colors"
+                  >
+                    {formatDuration(minutes)}
+                  </button>
+                ))}
+              </div>
+              {error && (
+                <p className="text-warm dark:text-dark-warm text-xs">{error}</p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
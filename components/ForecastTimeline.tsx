@@ -0,0 +1,166 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { HourlyForecast } from "@/types/weather";
+
+/**
+ * Time spent on each hour during playback (in milliseconds)
+ */
+const PLAYBACK_STEP_MS = 4000;
+
+/**
+ * Format a forecast hour, e.g. "Fri 7 PM"
+ */
+function formatHour(time: string): string {
+  return new Date(time).toLocaleString("en-US", {
+    weekday: "short",
+    hour: "numeric",
+    hour12: true,
+  });
+}
+
+interface ForecastTimelineProps {
+  hourly: HourlyForecast[];
+  /** Forecast hour being previewed, or null for live weather */
+  selectedTime: string | null;
+  onSelect: (time: string | null) => void;
+}
+
+/**
+ * ForecastTimeline - Scrub or play through the hourly forecast
+ *
+ * Features:
+ * - Slider over the next 48 hours
+ * - Time-lapse playback, one hour every few seconds
+ * - Back to live weather in one click
+ */
+export default function ForecastTimeline({ hourly, selectedTime, onSelect }: ForecastTimelineProps) {
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const selectedIndex = hourly.findIndex((hour) => hour.time === selectedTime);
+  const selectedHour = selectedIndex >= 0 ? hourly[selectedIndex] : null;
+  const lastIndex = hourly.length - 1;
+
+  // Step to the next hour, stopping at the end of the forecast
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    if (selectedIndex >= lastIndex) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timeout = setTimeout(() => onSelect(hourly[selectedIndex + 1].time), PLAYBACK_STEP_MS);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, selectedIndex, lastIndex, hourly, onSelect]);
+
+  const handlePlay = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+
+    // Start over once the end has been reached
+    if (selectedIndex >= lastIndex) {
+      onSelect(hourly[0].time);
+    }
+    setIsPlaying(true);
+  };
+
+  const handleLive = () => {
+    setIsPlaying(false);
+    onSelect(null);
+  };
+
+  if (hourly.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-2xl space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-text-secondary dark:text-dark-text-secondary">
+          {selectedHour
+            ? `${formatHour(selectedHour.time)} · ${selectedHour.condition.text}`
+            : "Forecast"}
+        </span>
+        {selectedHour && (
+          <button
+            onClick={handleLive}
+            className="text-text-secondary dark:text-dark-text-secondary
+                       hover:text-accent-primary dark:hover:text-dark-accent-primary
+                       transition-colors"
+          >
+            Back to now
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handlePlay}
+          className="flex-shrink-0 p-2 rounded-lg
+                     bg-surface dark:bg-dark-surface
+                     border border-accent-secondary/30 dark:border-dark-accent-secondary/30
+                     hover:border-accent-primary dark:hover:border-dark-accent-primary
+                     text-text-primary dark:text-dark-text-primary
+                     transition-colors"
+          aria-label={isPlaying ? "Pause forecast playback" : "Play forecast"}
+          title={isPlaying ? "Pause" : "Play the forecast"}
+        >
+          {isPlaying ? (
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              fill="none"
+              viewBox="0 0 24 24"
+              strokeWidth={1.5}
+              stroke="currentColor"
+              className="w-5 h-5"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 5.25v13.5m-7.5-13.5v13.5" />
+            </svg>
+          ) : (
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              fill="none"
+              viewBox="0 0 24 24"
+              strokeWidth={1.5}
+              stroke="currentColor"
+              className="w-5 h-5"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                d="M5.25 5.653c0-.856.917-1.398 1.667-.986l11.54 6.347a1.125 1.125 0 0 1 0 1.972l-11.54 6.347a1.125 1.125 0 0 1-1.667-.986V5.653Z"
+              />
+            </svg>
+          )}
+        </button>
+
+        <input
+          type="range"
+          min="0"
+          max={lastIndex}
+          value={Math.max(selectedIndex, 0)}
+          onChange={(e) => onSelect(hourly[Number(e.target.value)].time)}
+          className="flex-1 h-2 rounded-lg appearance-none cursor-pointer
+                     bg-accent-secondary/20 dark:bg-dark-accent-secondary/20
+                     [&::-webkit-slider-thumb]:appearance-none
+                     [&::-webkit-slider-thumb]:w-4
+                     [&::-webkit-slider-thumb]:h-4
+                     [&::-webkit-slider-thumb]:rounded-full
+                     [&::-webkit-slider-thumb]:bg-accent-primary
+                     dark:[&::-webkit-slider-thumb]:bg-dark-accent-primary
+                     [&::-webkit-slider-thumb]:cursor-pointer
+                     [&::-moz-range-thumb]:w-4
+                     [&::-moz-range-thumb]:h-4
+                     [&::-moz-range-thumb]:rounded-full
+                     [&::-moz-range-thumb]:bg-accent-primary
+                     dark:[&::-moz-range-thumb]:bg-dark-accent-primary
+                     [&::-moz-range-thumb]:border-0
+                     [&::-moz-range-thumb]:cursor-pointer"
+          aria-label="Forecast hour"
+          aria-valuetext={selectedHour ? formatHour(selectedHour.time) : "Now"}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+interface GeolocationButtonProps {
+  onLocate: () => void;
+  isLoading: boolean;
+}
+
+/**
+ * GeolocationButton - "Use my location" trigger shown next to the search bar
+ *
+ * The page owns the lookup (position → weather by coordinates) so failures
+ * land in its error panel alongside search errors.
+ */
+export default function GeolocationButton({ onLocate, isLoading }: GeolocationButtonProps) {
+  return (
+    <button
+      type="button"
+      onClick={onLocate}
+      disabled={isLoading}
+      className="p-3 rounded-lg
+                 bg-surface dark:bg-dark-surface
+                 border border-accent-secondary/30 dark:border-dark-accent-secondary/30
+                 text-text-primary dark:text-dark-text-primary
+                 hover:border-accent-primary dark:hover:border-dark-accent-primary
+                 disabled:opacity-50 disabled:cursor-not-allowed
+                 transition-colors"
+      aria-label="Use my location"
+      title="Use my location"
+    >
+      {/* Map pin icon */}
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        fill="none"
+        viewBox="0 0 24 24"
+        strokeWidth={1.5}
+        stroke="currentColor"
+        className="w-6 h-6"
+      >
+        <path strokeLinecap="round" strokeLinejoin="round" d="M15 10.5a3 3 0 1 1-6 0 3 3 0 0 1 6 0Z" />
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          d="M19.5 10.5c0 7.142-7.5 11.25-7.5 11.25S4.5 17.642 4.5 10.5a7.5 7.5 0 1 1 15 0Z"
+        />
+      </svg>
+    </button>
+  );
+}
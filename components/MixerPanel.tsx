@@ -0,0 +1,183 @@
+"use client";
+
+import { useAudio } from "./AudioProvider";
+import { DEFAULT_LAYER_MIX, MAX_LAYER_GAIN } from "@/lib/audioController";
+import { formatSoundName } from "@/lib/audioUtils";
+import type { SoundCategory, SoundLayer } from "@/types/audio";
+
+/**
+ * Mixer groups, in display order
+ */
+const CATEGORY_GROUPS: { category: SoundCategory; label: string }[] = [
+  { category: "base", label: "Base" },
+  { category: "weather", label: "Weather" },
+  { category: "accent", label: "Accents" },
+  { category: "event", label: "Events" },
+];
+
+/**
+ * Small square toggle for mute/solo
+ */
+function MixToggle({
+  label,
+  title,
+  active,
+  onClick,
+}: {
+  label: string;
+  title: string;
+  active: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`flex-shrink-0 w-7 h-7 rounded text-xs font-medium transition-colors
+                  ${
+                    active
+                      ? "bg-accent-primary dark:bg-dark-accent-primary text-text-primary dark:text-dark-text-primary"
+                      : "bg-accent-secondary/20 dark:bg-dark-accent-secondary/20 text-text-secondary dark:text-dark-text-secondary hover:text-text-primary dark:hover:text-dark-text-primary"
+                  }`}
+      aria-label={title}
+      aria-pressed={active}
+      title={title}
+    >
+      {label}
+    </button>
+  );
+}
+
+/**
+ * MixerPanel - Per-layer mix of the current soundscape
+ *
+ * Features:
+ * - Layers grouped by category
+ * - Volume trim, mute and solo per layer
+ * - Settings stick to each sound through weather and location changes
+ * - Weather/biome effects (muffling, reverb) on/off
+ */
+export default function MixerPanel() {
+  const { soundLayers, layerMix, setLayerMix, resetMix, effectsEnabled, setEffectsEnabled } =
+    useAudio();
+
+  const hasOverrides = Object.keys(layerMix).length > 0;
+
+  const renderLayer = (layer: SoundLayer) => {
+    const mix = layerMix[layer.soundId] ?? DEFAULT_LAYER_MIX;
+    const name = formatSoundName(layer.soundId);
+    const gainPercentage = Math.round(mix.gain * 100);
+
+    return (
+      <li key={layer.soundId} className="flex items-center gap-2">
+        <span
+          className={`w-28 flex-shrink-0 truncate text-sm
+                      ${
+                        mix.muted
+                          ? "text-text-secondary dark:text-dark-text-secondary line-through"
+                          : "text-text-primary dark:text-dark-text-primary"
+                      }`}
+          title={name}
+        >
+          {name}
+        </span>
+        <input
+          type="range"
+          min="0"
+          max={MAX_LAYER_GAIN * 100}
+          value={gainPercentage}
+          onChange={(e) => setLayerMix(layer.soundId, { gain: Number(e.target.value) / 100 })}
+          onDoubleClick={() => setLayerMix(layer.soundId, { gain: 1 })}
+          className="flex-1 min-w-0 h-1.5 rounded-lg appearance-none cursor-pointer
+                     bg-accent-secondary/20 dark:bg-dark-accent-secondary/20
+                     [&::-webkit-slider-thumb]:appearance-none
+                     [&::-webkit-slider-thumb]:w-3
+                     [&::-webkit-slider-thumb]:h-3
+                     [&::-webkit-slider-thumb]:rounded-full
+                     [&::-webkit-slider-thumb]:bg-accent-primary
+                     dark:[&::-webkit-slider-thumb]:bg-dark-accent-primary
+                     [&::-webkit-slider-thumb]:cursor-pointer
+                     [&::-moz-range-thumb]:w-3
+                     [&::-moz-range-thumb]:h-3
+                     [&::-moz-range-thumb]:rounded-full
+                     [&::-moz-range-thumb]:bg-accent-primary
+                     dark:[&::-moz-range-thumb]:bg-dark-accent-primary
+                     [&::-moz-range-thumb]:border-0
+                     [&::-moz-range-thumb]:cursor-pointer"
+          aria-label={`${name} volume`}
+          title="Double-click to reset"
+        />
+        <span className="w-10 flex-shrink-0 text-right text-xs tabular-nums text-text-secondary dark:text-dark-text-secondary">
+          {gainPercentage}%
+        </span>
+        <MixToggle
+          label="M"
+          title={mix.muted ? `Unmute ${name}` : `Mute ${name}`}
+          active={mix.muted}
+          onClick={() => setLayerMix(layer.soundId, { muted: !mix.muted })}
+        />
+        <MixToggle
+          label="S"
+          title={mix.solo ? `Unsolo ${name}` : `Solo ${name}`}
+          active={mix.solo}
+          onClick={() => setLayerMix(layer.soundId, { solo: !mix.solo })}
+        />
+      </li>
+    );
+  };
+
+  return (
+    <div className="mb-4 pb-4 border-b border-accent-secondary/30 dark:border-dark-accent-secondary/30">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs text-text-secondary dark:text-dark-text-secondary">Mixer</span>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setEffectsEnabled(!effectsEnabled)}
+            className={`text-xs transition-colors
+                        hover:text-accent-primary dark:hover:text-dark-accent-primary
+                        ${
+                          effectsEnabled
+                            ? "text-text-primary dark:text-dark-text-primary"
+                            : "text-text-secondary dark:text-dark-text-secondary line-through"
+                        }`}
+            aria-pressed={effectsEnabled}
+            title="Weather and place effects (muffling, reverb)"
+          >
+            Effects
+          </button>
+          {hasOverrides && (
+            <button
+              onClick={resetMix}
+              className="text-xs text-text-secondary dark:text-dark-text-secondary
+                         hover:text-accent-primary dark:hover:text-dark-accent-primary
+                         transition-colors"
+            >
+              Reset
+            </button>
+          )}
+        </div>
+      </div>
+
+      {soundLayers.length === 0 ? (
+        <p className="text-sm text-text-secondary dark:text-dark-text-secondary">
+          Nothing playing
+        </p>
+      ) : (
+        <div className="max-h-[50vh] overflow-y-auto space-y-3">
+          {CATEGORY_GROUPS.map(({ category, label }) => {
+            const layers = soundLayers.filter((layer) => layer.category === category);
+            if (layers.length === 0) return null;
+
+            return (
+              <div key={category}>
+                <div className="text-[11px] uppercase tracking-wide mb-1 text-text-secondary dark:text-dark-text-secondary">
+                  {label}
+                </div>
+                <ul className="space-y-1.5">{layers.map(renderLayer)}</ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,68 +1,244 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
+import { searchLocations } from "@/lib/weather";
+import { parseCoordinates } from "@/lib/coordinates";
+import type { Coordinates } from "@/lib/coordinates";
+import { parseLocationQuery, LOCATION_QUERY_HINT } from "@/lib/locationQuery";
+import type { GeocodingResult } from "@/types/weather";
 
 interface SearchBarProps {
   onSearch: (query: string) => void;
+  onSelectLocation: (location: GeocodingResult) => void;
+  onSearchCoordinates: (coordinates: Coordinates) => void;
   isLoading: boolean;
 }
 
-export default function SearchBar({ onSearch, isLoading }: SearchBarProps) {
+// Wait this long after the last keystroke before fetching suggestions
+const SUGGESTION_DEBOUNCE_MS = 300;
+const MIN_SUGGESTION_QUERY_LENGTH = 2;
+
+/**
+ * Format a geocoding result as "Name, Region, Country"
+ */
+function formatLocationLabel(location: GeocodingResult): string {
+  return [location.name, location.admin1, location.country]
+    .filter((part, index, parts) => part && parts.indexOf(part) === index)
+    .join(", ");
+}
+
+export default function SearchBar({
+  onSearch,
+  onSelectLocation,
+  onSearchCoordinates,
+  isLoading,
+}: SearchBarProps) {
   const [query, setQuery] = useState("");
   const [error, setError] = useState("");
+  const [suggestions, setSuggestions] = useState<GeocodingResult[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isOpen, setIsOpen] = useState(false);
 
-  const validateInput = (value: string): boolean => {
-    // US Zip code: 5 digits
-    const zipRegex = /^\d{5}$/;
-    // City name: at least 2 characters, letters and spaces
-    const cityRegex = /^[a-zA-Z\s]{2,}$/;
+  // Label of the chosen suggestion; no suggestions are fetched while the input shows it
+  const selectedLabelRef = useRef<string | null>(null);
+
+  // Debounced suggestion lookup; in-flight requests are aborted on each keystroke
+  useEffect(() => {
+    const trimmedQuery = query.trim();
+
+    if (query === selectedLabelRef.current) return;
+    selectedLabelRef.current = null;
+
+    // Coordinates go straight to the weather route; nothing to suggest.
+    // Input the geocoder would reject isn't worth a request either.
+    if (
+      trimmedQuery.length < MIN_SUGGESTION_QUERY_LENGTH ||
+      parseCoordinates(trimmedQuery) ||
+      !parseLocationQuery(trimmedQuery)
+    ) {
+      setSuggestions([]);
+      setIsOpen(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = window.setTimeout(async () => {
+      try {
+        const results = await searchLocations(trimmedQuery, controller.signal);
+        setSuggestions(results);
+        setActiveIndex(-1);
+        setIsOpen(results.length > 0);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        // Suggestions are best-effort; a plain search still works
+        setSuggestions([]);
+        setIsOpen(false);
+      }
+    }, SUGGESTION_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [query]);
 
-    if (zipRegex.test(value) || cityRegex.test(value)) {
+  const validateInput = (value: string): boolean => {
+    // Place names in any script, postcodes, optional "Region, Country" qualifiers
+    if (parseLocationQuery(value)) {
       setError("");
       return true;
     }
 
-    setError("Enter a valid US zip code or city name");
+    setError(LOCATION_QUERY_HINT);
     return false;
   };
 
+  const closeSuggestions = () => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const selectSuggestion = (location: GeocodingResult) => {
+    const label = formatLocationLabel(location);
+    selectedLabelRef.current = label;
+    setQuery(label);
+    setError("");
+    setSuggestions([]);
+    closeSuggestions();
+    onSelectLocation(location);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const trimmedQuery = query.trim();
 
+    if (isOpen && activeIndex >= 0 && suggestions[activeIndex]) {
+      selectSuggestion(suggestions[activeIndex]);
+      return;
+    }
+
+    closeSuggestions();
+
     if (!trimmedQuery) {
       setError("Please enter a location");
       return;
     }
 
+    const coordinates = parseCoordinates(trimmedQuery);
+    if (coordinates) {
+      setError("");
+      onSearchCoordinates(coordinates);
+      return;
+    }
+
     if (validateInput(trimmedQuery)) {
       onSearch(trimmedQuery);
     }
   };
 
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || suggestions.length === 0) {
+      if (e.key === "ArrowDown" && suggestions.length > 0) {
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(0);
+      }
+      return;
+    }
+
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setActiveIndex((index) => (index + 1) % suggestions.length);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setActiveIndex((index) => (index <= 0 ? suggestions.length - 1 : index - 1));
+        break;
+      case "Escape":
+        e.preventDefault();
+        closeSuggestions();
+        break;
+    }
+  };
+
   return (
     <form onSubmit={handleSubmit} className="w-full max-w-md">
       <div className="flex flex-col gap-2">
         <div className="flex gap-2">
-          <input
-            type="text"
-            value={query}
-            onChange={(e) => {
-              setQuery(e.target.value);
-              setError("");
-            }}
-            placeholder="Enter zip code or city"
-            disabled={isLoading}
-            className="flex-1 px-4 py-3
-                     bg-surface dark:bg-dark-surface
-                     border border-accent-secondary/30 dark:border-dark-accent-secondary/30
-                     rounded-lg
-                     text-text-primary dark:text-dark-text-primary
-                     placeholder:text-text-secondary dark:placeholder:text-dark-text-secondary
-                     focus:outline-none focus:border-accent-primary dark:focus:border-dark-accent-primary
-                     disabled:opacity-50 disabled:cursor-not-allowed
-                     transition-colors"
-          />
+          <div className="relative flex-1">
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setError("");
+              }}
+              onKeyDown={handleKeyDown}
+              onBlur={closeSuggestions}
+              onFocus={() => setIsOpen(suggestions.length > 0)}
+              placeholder="Enter zip code, city or coordinates"
+              disabled={isLoading}
+              role="combobox"
+              aria-autocomplete="list"
+              aria-expanded={isOpen}
+              aria-controls="location-suggestions"
+              aria-activedescendant={
+                isOpen && activeIndex >= 0 ? `location-suggestion-${activeIndex}` : undefined
+              }
+              autoComplete="off"
+              className="w-full px-4 py-3
+                       bg-surface dark:bg-dark-surface
+                       border border-accent-secondary/30 dark:border-dark-accent-secondary/30
+                       rounded-lg
+                       text-text-primary dark:text-dark-text-primary
+                       placeholder:text-text-secondary dark:placeholder:text-dark-text-secondary
+                       focus:outline-none focus:border-accent-primary dark:focus:border-dark-accent-primary
+                       disabled:opacity-50 disabled:cursor-not-allowed
+                       transition-colors"
+            />
+
+            {/* Suggestions Dropdown */}
+            {isOpen && suggestions.length > 0 && (
+              <ul
+                id="location-suggestions"
+                role="listbox"
+                className="absolute left-0 right-0 top-full mt-2 z-30 py-1
+                         bg-surface dark:bg-dark-surface
+                         border border-accent-secondary/30 dark:border-dark-accent-secondary/30
+                         rounded-lg overflow-hidden"
+              >
+                {suggestions.map((location, index) => (
+                  <li
+                    key={location.id}
+                    id={`location-suggestion-${index}`}
+                    role="option"
+                    aria-selected={index === activeIndex}
+                    // Keep focus in the input so blur doesn't close the list before the click lands
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => selectSuggestion(location)}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    className={`px-4 py-2 cursor-pointer transition-colors
+                              ${
+                                index === activeIndex
+                                  ? "bg-accent-secondary/30 dark:bg-dark-accent-secondary/60"
+                                  : ""
+                              }`}
+                  >
+                    <p className="text-text-primary dark:text-dark-text-primary">
+                      {location.name}
+                    </p>
+                    <p className="text-xs text-text-secondary dark:text-dark-text-secondary">
+                      {[location.admin1, location.country].filter(Boolean).join(", ")}
+                      {location.population
+                        ? ` • pop. ${location.population.toLocaleString("en-US")}`
+                        : ""}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
           <button
             type="submit"
             disabled={isLoading}
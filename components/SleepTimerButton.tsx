@@ -0,0 +1,204 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAudio } from "./AudioProvider";
+
+/**
+ * Sleep timer presets (in minutes)
+ */
+const SLEEP_TIMER_PRESETS = [15, 30, 60, 90];
+
+/**
+ * Longest custom timer (in minutes)
+ */
+const MAX_CUSTOM_MINUTES = 12 * 60;
+
+/**
+ * Format remaining time as m:ss or h:mm:ss
+ */
+function formatRemaining(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+/**
+ * SleepTimerButton - Fade the soundscape out and stop it after a while
+ *
+ * Features:
+ * - Preset and custom timer lengths (the last one used is remembered)
+ * - Remaining time shown on the button
+ * - Cancel or restart while running
+ */
+export default function SleepTimerButton() {
+  const { sleepTimerEnd, sleepTimerMinutes, startSleepTimer, cancelSleepTimer } = useAudio();
+  const [isOpen, setIsOpen] = useState(false);
+  const [customMinutes, setCustomMinutes] = useState("");
+  const [now, setNow] = useState(() => Date.now());
+
+  // Offer the last custom length again (presets are highlighted instead)
+  useEffect(() => {
+    if (sleepTimerMinutes !== null && !SLEEP_TIMER_PRESETS.includes(sleepTimerMinutes)) {
+      setCustomMinutes(String(sleepTimerMinutes));
+    }
+  }, [sleepTimerMinutes]);
+
+  // Tick once a second while the timer runs
+  useEffect(() => {
+    if (sleepTimerEnd === null) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [sleepTimerEnd]);
+
+  const isActive = sleepTimerEnd !== null;
+  const customValue = Number(customMinutes);
+  const isCustomValid =
+    customMinutes !== "" && customValue > 0 && customValue <= MAX_CUSTOM_MINUTES;
+
+  const handleStart = (minutes: number) => {
+    startSleepTimer(minutes);
+    setIsOpen(false);
+  };
+
+  const handleCancel = () => {
+    cancelSleepTimer();
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative flex-shrink-0">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className={`flex items-center gap-1.5 p-2 rounded-lg
+                   bg-surface dark:bg-dark-surface
+                   border hover:border-accent-primary dark:hover:border-dark-accent-primary
+                   text-text-primary dark:text-dark-text-primary
+                   transition-colors
+                   ${
+                     isActive
+                       ? "border-accent-primary dark:border-dark-accent-primary"
+                       : "border-accent-secondary/30 dark:border-dark-accent-secondary/30"
+                   }`}
+        aria-label={
+          isActive
+            ? `Sleep timer: ${formatRemaining(sleepTimerEnd - now)} remaining`
+            : "Sleep timer"
+        }
+        aria-expanded={isOpen}
+        title="Sleep timer"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          fill="none"
+          viewBox="0 0 24 24"
+          strokeWidth={1.5}
+          stroke="currentColor"
+          className="w-5 h-5"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            d="M21.752 15.002A9.72 9.72 0 0 1 18 15.75c-5.385 0-9.75-4.365-9.75-9.75 0-1.33.266-2.597.748-3.752A9.753 9.753 0 0 0 3 11.25C3 16.635 7.365 21 12.75 21a9.753 9.753 0 0 0 9.002-5.998Z"
+          />
+        </svg>
+        {isActive && (
+          <span className="text-xs tabular-nums">
+            {formatRemaining(sleepTimerEnd - now)}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute bottom-full right-0 mb-3 w-60 px-4 py-3 rounded-lg
+                     bg-surface dark:bg-dark-surface
+                     border border-accent-secondary/30 dark:border-dark-accent-secondary/30
+                     space-y-3"
+        >
+          <div className="text-xs text-text-secondary dark:text-dark-text-secondary">
+            {isActive
+              ? `Fading to sleep in ${formatRemaining(sleepTimerEnd - now)}`
+              : "Fade out and stop after"}
+          </div>
+
+          <div className="grid grid-cols-4 gap-2">
+            {SLEEP_TIMER_PRESETS.map((minutes) => (
+              <button
+                key={minutes}
+                onClick={() => handleStart(minutes)}
+                className={`px-2 py-1.5 rounded-lg text-sm
+                           hover:bg-accent-primary dark:hover:bg-dark-accent-primary
+                           text-text-primary dark:text-dark-text-primary
+                           transition-colors
+                           ${
+                             minutes === sleepTimerMinutes
+                               ? "bg-accent-secondary dark:bg-dark-accent-secondary"
+                               : "bg-accent-secondary/20 dark:bg-dark-accent-secondary/20"
+                           }`}
+              >
+                {minutes}m
+              </button>
+            ))}
+          </div>
+
+          {/* Custom length */}
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (isCustomValid) handleStart(customValue);
+            }}
+          >
+            <input
+              type="number"
+              min={1}
+              max={MAX_CUSTOM_MINUTES}
+              value={customMinutes}
+              onChange={(e) => setCustomMinutes(e.target.value)}
+              placeholder="Minutes"
+              className="flex-1 min-w-0 px-3 py-1.5 rounded-lg text-sm
+                         bg-surface dark:bg-dark-surface
+                         border border-accent-secondary/30 dark:border-dark-accent-secondary/30
+                         focus:border-accent-primary dark:focus:border-dark-accent-primary
+                         text-text-primary dark:text-dark-text-primary
+                         outline-none"
+              aria-label="Custom sleep timer in minutes"
+            />
+            <button
+              type="submit"
+              disabled={!isCustomValid}
+              className="px-3 py-1.5 rounded-lg text-sm
+                         bg-accent-secondary/20 dark:bg-dark-accent-secondary/20
+                         hover:bg-accent-primary dark:hover:bg-dark-accent-primary
+                         text-text-primary dark:text-dark-text-primary
+                         disabled:opacity-50 disabled:cursor-not-allowed
+                         transition-colors"
+            >
+              Set
+            </button>
+          </form>
+
+          {isActive && (
+            <button
+              onClick={handleCancel}
+              className="w-full px-3 py-1.5 rounded-lg text-sm
+                         border border-accent-secondary/30 dark:border-dark-accent-secondary/30
+                         hover:border-accent-primary dark:hover:border-dark-accent-primary
+                         text-text-primary dark:text-dark-text-primary
+                         transition-colors"
+            >
+              Cancel timer
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,7 +10,7 @@ import { useAudio } from "./AudioProvider";
  * Disappears once audio system is ready.
  */
 export default function StartAudioButton() {
-  const { initialize, isReady, isLoading, hasInteracted } = useAudio();
+  const { initialize, isReady, isLoading, loadProgress, hasInteracted } = useAudio();
   const [error, setError] = useState<string | null>(null);
 
   const handleStart = async () => {
@@ -76,13 +76,31 @@ export default function StartAudioButton() {
                   d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                 />
               </svg>
-              Loading sounds...
+              Loading sounds... {Math.round(loadProgress * 100)}%
             </span>
           ) : (
             "Start Soundscape"
           )}
         </button>
 
+        {/* Load Progress */}
+        {isLoading && (
+          <div
+            className="mx-auto w-64 h-1.5 rounded-full overflow-hidden
+                       bg-accent-secondary/30 dark:bg-dark-accent-secondary/30"
+            role="progressbar"
+            aria-label="Loading sounds"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(loadProgress * 100)}
+          >
+            <div
+              className="h-full bg-accent-primary dark:bg-dark-accent-primary transition-[width] duration-200"
+              style={{ width: `${Math.round(loadProgress * 100)}%` }}
+            />
+          </div>
+        )}
+
         {/* Error Message */}
         {error && (
           <div
@@ -1,9 +1,8 @@
 "use client";
 
 import { createContext, useContext, useEffect, useState } from "react";
-import Cookies from "js-cookie";
-
-type Theme = "light" | "dark";
+import { loadThemePreference, saveThemePreference } from "@/lib/preferences";
+import type { Theme } from "@/lib/preferences";
 
 interface ThemeContextType {
   theme: Theme;
@@ -24,11 +23,11 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
 
   // Mark as mounted and sync with cookie if needed
   useEffect(() => {
-    const savedTheme = Cookies.get("skypin-theme") as Theme | undefined;
+    const savedTheme = loadThemePreference();
 
     // If no cookie exists, set default to dark
     if (!savedTheme) {
-      Cookies.set("skypin-theme", "dark", { expires: 365 });
+      saveThemePreference("dark");
     }
 
     setMounted(true);
@@ -37,7 +36,7 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
   const toggleTheme = () => {
     const newTheme = theme === "dark" ? "light" : "dark";
     setTheme(newTheme);
-    Cookies.set("skypin-theme", newTheme, { expires: 365 });
+    saveThemePreference(newTheme);
 
     // Apply theme class to document
     const root = document.documentElement;
@@ -10,6 +10,9 @@ interface WeatherDisplayProps {
 export default function WeatherDisplay({ data }: WeatherDisplayProps) {
   const { location, current, biome } = data;
 
+  // Region/country can be empty for coordinate searches with no nearby place
+  const placeLabel = [location.region, location.country].filter(Boolean).join(", ");
+
   // Format the local time
   const localTime = new Date(location.localtime).toLocaleTimeString("en-US", {
     hour: "numeric",
@@ -26,7 +29,7 @@ export default function WeatherDisplay({ data }: WeatherDisplayProps) {
             {location.name}
           </h1>
           <p className="text-text-secondary dark:text-dark-text-secondary text-lg">
-            {location.region && `${location.region}, `}{location.country} • {formatBiomeForDisplay(biome.type)}
+            {placeLabel && `${placeLabel} • `}{formatBiomeForDisplay(biome.type)}
           </p>
         </div>
 
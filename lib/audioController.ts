@@ -10,14 +10,22 @@
  * 3. Update soundscape whenever weather/location changes
  */
 
-import { getAudioManager } from './audioManager';
-import { getSoundLayers } from './soundMapping';
+import { getAudioManager, NEUTRAL_EFFECTS } from './audioManager';
+import { getSoundLayers, getSoundEffects } from './soundMapping';
+import type { SoundscapeConditions } from './soundMapping';
 import { getTimeOfDay } from './biomeUtils';
 import { getAllSoundIds } from './audioUtils';
 import type { BiomeType } from './biomeDetector';
 import type { TimeOfDay } from './biomeUtils';
 import type { WeatherData } from '@/types/weather';
-import type { SoundLayer } from '@/types/audio';
+import type {
+  SoundLayer,
+  SoundLoadEvent,
+  OfflineRenderOptions,
+  SleepTimerEvent,
+  LayerMix,
+  SoundEffects,
+} from '@/types/audio';
 
 /**
  * Configuration for soundscape transitions.
@@ -43,6 +51,26 @@ const DEFAULT_TRANSITION: SoundscapeTransitionConfig = {
   clearAll: false,
 };
 
+/**
+ * Highest per-layer mixer gain (a trim on top of the layer's mapped volume).
+ */
+export const MAX_LAYER_GAIN = 2;
+
+/**
+ * Mixer settings for a layer the user hasn't touched.
+ */
+export const DEFAULT_LAYER_MIX: LayerMix = { gain: 1, muted: false, solo: false };
+
+/**
+ * Fade time for mixer changes in seconds (quick, but without clicks).
+ */
+const MIX_FADE_DURATION = 0.3;
+
+/**
+ * Longest sleep timer fade-out in seconds (shorter timers fade over their whole length).
+ */
+const SLEEP_FADE_DURATION = 5 * 60;
+
 /**
  * AudioController - High-level soundscape management.
  *
@@ -52,7 +80,15 @@ const DEFAULT_TRANSITION: SoundscapeTransitionConfig = {
 export class AudioController {
   private audioManager = getAudioManager();
   private currentSoundscape: SoundLayer[] = [];
+  private soundscapeListeners: Set<(layers: SoundLayer[]) => void> = new Set();
+  // User mixer overrides by sound ID (untouched sounds have no entry)
+  private mix: Map<string, LayerMix> = new Map();
+  // Effects for the current conditions, applied unless the user turned effects off
+  private soundEffects: SoundEffects = NEUTRAL_EFFECTS;
+  private effectsEnabled = true;
   private isReady = false;
+  private sleepTimer: { endsAt: number; timeoutId: ReturnType<typeof setTimeout> } | null = null;
+  private sleepTimerListeners: Set<(event: SleepTimerEvent) => void> = new Set();
 
   /**
    * Initialize the audio system.
@@ -83,10 +119,10 @@ export class AudioController {
   }
 
   /**
-   * Preload all audio files for instant playback.
+   * Preload audio files in the background for instant playback later.
    *
-   * Recommended to call during app loading after initialization.
-   * Can be called progressively or all at once.
+   * Files load at background priority, behind anything the current
+   * soundscape still needs. Safe to call without awaiting.
    *
    * @param soundIds - Optional array of specific sounds to preload (defaults to all)
    * @returns Promise that resolves when preloading is complete
@@ -103,14 +139,27 @@ export class AudioController {
     await this.audioManager.preloadSounds(idsToLoad);
   }
 
+  /**
+   * Subscribe to per-file audio loading progress.
+   *
+   * @param listener - Called for every status/progress change of every file
+   * @returns Function that removes the listener
+   */
+  onLoadProgress(listener: (event: SoundLoadEvent) => void): () => void {
+    return this.audioManager.addLoadListener(listener);
+  }
+
   /**
    * Update the soundscape based on weather data.
    *
    * Intelligently transitions from the current soundscape to a new one,
-   * fading out removed sounds and fading in new ones.
+   * fading out removed sounds and fading in new ones. Sounds that aren't
+   * loaded yet are fetched first (base layers at critical priority) and
+   * start as soon as they're decoded.
    *
    * @param weatherData - Current weather and biome data
    * @param config - Optional transition configuration
+   * @returns Promise that resolves once the new base layers are playing
    *
    * @example
    * controller.updateSoundscape(weatherData, {
@@ -122,23 +171,34 @@ export class AudioController {
   updateSoundscape(
     weatherData: WeatherData,
     config: Partial<SoundscapeTransitionConfig> = {}
-  ): void {
+  ): Promise<void> {
     if (!this.isReady) {
       console.error('AudioController not initialized');
-      return;
+      return Promise.resolve();
     }
 
     const transition = { ...DEFAULT_TRANSITION, ...config };
 
     // Extract relevant data
     const biome = weatherData.biome.type;
-    const timeOfDay = getTimeOfDay(weatherData.location.localtime);
+    const timeOfDay = getTimeOfDay(weatherData.location.localtime, weatherData.sun);
     const weatherCode = weatherData.current.condition.code;
     const windSpeed = weatherData.current.wind_kph;
-    const humidity = weatherData.current.humidity;
+
+    const conditions: SoundscapeConditions = {
+      biome,
+      timeOfDay,
+      weatherCode,
+      windSpeedKph: windSpeed,
+      windDirection: weatherData.current.wind_dir,
+      humidity: weatherData.current.humidity,
+      temperatureC: weatherData.current.temp_c,
+      location: weatherData.biome.coordinates,
+      date: weatherData.location.localtime.slice(0, 10),
+    };
 
     // Get new sound layers
-    const newLayers = getSoundLayers(biome, timeOfDay, weatherCode, windSpeed, humidity);
+    const newLayers = getSoundLayers(conditions);
 
     console.log(`Updating soundscape for ${biome} at ${timeOfDay}:`, {
       layers: newLayers.length,
@@ -146,11 +206,14 @@ export class AudioController {
       wind: `${windSpeed} kph`,
     });
 
-    // Apply soundscape transition
-    this.transitionSoundscape(newLayers, transition);
+    // Apply soundscape transition, easing reverb and muffling along with it
+    const baseLayersStarted = this.transitionSoundscape(newLayers, transition);
+    this.applyEffects(getSoundEffects(conditions), transition.fadeInDuration);
 
     // Update current state
-    this.currentSoundscape = newLayers;
+    this.setCurrentSoundscape(newLayers);
+
+    return baseLayersStarted;
   }
 
   /**
@@ -162,30 +225,29 @@ export class AudioController {
    * 3. Identify sounds to keep (in both, may adjust volume)
    * 4. Fade out removed sounds
    * 5. Fade in new sounds
-   * 6. Adjust volume for kept sounds
+   * 6. Adjust volume (and pan, event timing) for kept sounds
+   * 7. Crossfade kept sounds that switch between loop and one-shot events
+   *    (e.g. a dawn chorus loop becoming daytime bird calls)
    *
    * @param newLayers - Target sound layer configuration
    * @param config - Transition configuration
+   * @returns Promise that resolves once the added base layers are playing
    */
   private transitionSoundscape(
     newLayers: SoundLayer[],
     config: SoundscapeTransitionConfig
-  ): void {
+  ): Promise<void> {
     // If clearAll is true, stop everything and start fresh
     if (config.clearAll) {
       this.audioManager.stopAll(config.fadeOutDuration);
-      setTimeout(() => {
-        newLayers.forEach((layer) => {
-          this.audioManager.play(layer.soundId, {
-            volume: layer.volume,
-            loop: layer.loop,
-            fadeInDuration: config.fadeInDuration,
-            category: layer.category,
-            startDelay: layer.startDelay,
-          });
-        });
-      }, config.fadeOutDuration * 1000);
-      return;
+      return new Promise((resolve) => {
+        setTimeout(() => {
+          const started = newLayers.map((layer) =>
+            this.playLayer(layer, config.fadeInDuration, newLayers)
+          );
+          Promise.all(started).then(() => resolve());
+        }, config.fadeOutDuration * 1000);
+      });
     }
 
     // Build maps for comparison
@@ -199,30 +261,56 @@ export class AudioController {
     const toAdd = newLayers.filter((layer) => !currentMap.has(layer.soundId));
 
     // Find sounds to keep (may need volume adjustment)
-    const toKeep = newLayers.filter((layer) => currentMap.has(layer.soundId));
+    const inBoth = newLayers.filter((layer) => currentMap.has(layer.soundId));
+
+    // Same sound played differently (loop vs. events) has to restart
+    const changesMode = (layer: SoundLayer) => {
+      const currentLayer = currentMap.get(layer.soundId)!;
+      return layer.loop !== currentLayer.loop || Boolean(layer.event) !== Boolean(currentLayer.event);
+    };
+    const toRestart = inBoth.filter(changesMode);
+    const toKeep = inBoth.filter((layer) => !changesMode(layer));
 
     // Remove old sounds
     toRemove.forEach((layer) => {
       this.audioManager.stop(layer.soundId, config.fadeOutDuration);
     });
 
-    // Add new sounds
-    toAdd.forEach((layer) => {
-      this.audioManager.play(layer.soundId, {
-        volume: layer.volume,
-        loop: layer.loop,
-        fadeInDuration: layer.fadeInDuration || config.fadeInDuration,
-        category: layer.category,
-        startDelay: layer.startDelay,
-      });
+    // Add new sounds (loading them first if needed)
+    const baseLayersStarted = Promise.all(
+      toAdd.map((layer) => {
+        const started = this.playLayer(
+          layer,
+          layer.fadeInDuration || config.fadeInDuration,
+          newLayers
+        );
+        return layer.category === 'base' ? started : Promise.resolve();
+      })
+    ).then(() => undefined);
+
+    // Restart in the new mode; play() crossfades out the old track
+    toRestart.forEach((layer) => {
+      this.playLayer(layer, layer.fadeInDuration || config.fadeInDuration, newLayers);
     });
 
-    // Adjust volume for kept sounds
+    // Adjust volume for kept sounds (mixer overrides stay applied on top)
     toKeep.forEach((layer) => {
       const currentLayer = currentMap.get(layer.soundId)!;
-      if (Math.abs(currentLayer.volume - layer.volume) > 0.05) {
+      const currentVolume = this.getMixedVolume(currentLayer, this.currentSoundscape);
+      const newVolume = this.getMixedVolume(layer, newLayers);
+      if (Math.abs(currentVolume - newVolume) > 0.05) {
         // Only adjust if volume change is significant
-        this.audioManager.setVolume(layer.soundId, layer.volume, config.fadeInDuration);
+        this.audioManager.setVolume(layer.soundId, newVolume, config.fadeInDuration);
+      }
+
+      // Follow shifts in placement (e.g. wind changing direction)
+      if ((layer.pan ?? 0) !== (currentLayer.pan ?? 0)) {
+        this.audioManager.setPan(layer.soundId, layer.pan ?? 0, config.fadeInDuration);
+      }
+
+      // Event rates follow conditions (e.g. a strengthening storm)
+      if (layer.event) {
+        this.audioManager.setEventSchedule(layer.soundId, layer.event);
       }
     });
 
@@ -230,7 +318,60 @@ export class AudioController {
       removed: toRemove.map((l) => l.soundId),
       added: toAdd.map((l) => l.soundId),
       kept: toKeep.map((l) => l.soundId),
+      restarted: toRestart.map((l) => l.soundId),
     });
+
+    return baseLayersStarted;
+  }
+
+  /**
+   * Start a sound layer, loading its audio first if needed.
+   *
+   * Base layers load at critical priority and everything else at normal
+   * priority. If the soundscape changes while a file loads, the sound only
+   * starts if it's still part of the new soundscape (with its new settings).
+   *
+   * @param layer - Layer to start
+   * @param fadeInDuration - Fade-in time in seconds
+   * @param layers - Soundscape the layer belongs to (for the mixer's solo state)
+   * @returns Promise that resolves once the layer has started (or been dropped)
+   */
+  private async playLayer(
+    layer: SoundLayer,
+    fadeInDuration: number,
+    layers: SoundLayer[]
+  ): Promise<void> {
+    const start = (target: SoundLayer, soundscape: SoundLayer[]) => {
+      this.audioManager.play(target.soundId, {
+        volume: this.getMixedVolume(target, soundscape),
+        loop: target.loop,
+        fadeInDuration,
+        category: target.category,
+        startDelay: target.startDelay,
+        loopPoints: target.loopPoints,
+        event: target.event,
+        pan: target.pan,
+      });
+    };
+
+    if (this.audioManager.isLoaded(layer.soundId)) {
+      start(layer, layers);
+      return;
+    }
+
+    await this.audioManager.loadSounds(
+      [layer.soundId],
+      layer.category === 'base' ? 'critical' : 'normal'
+    );
+
+    const current = this.currentSoundscape.find((l) => l.soundId === layer.soundId);
+    if (
+      current &&
+      this.audioManager.isLoaded(layer.soundId) &&
+      !this.audioManager.isPlaying(layer.soundId)
+    ) {
+      start(current, this.currentSoundscape);
+    }
   }
 
   /**
@@ -262,10 +403,18 @@ export class AudioController {
     }
 
     const transition = { ...DEFAULT_TRANSITION, ...config };
-    const newLayers = getSoundLayers(biome, timeOfDay, weatherCode, windSpeed, humidity);
+    const conditions: SoundscapeConditions = {
+      biome,
+      timeOfDay,
+      weatherCode,
+      windSpeedKph: windSpeed,
+      humidity,
+    };
+    const newLayers = getSoundLayers(conditions);
 
     this.transitionSoundscape(newLayers, transition);
-    this.currentSoundscape = newLayers;
+    this.applyEffects(getSoundEffects(conditions), transition.fadeInDuration);
+    this.setCurrentSoundscape(newLayers);
   }
 
   /**
@@ -278,7 +427,7 @@ export class AudioController {
    */
   stopSoundscape(fadeOutDuration = 3): void {
     this.audioManager.stopAll(fadeOutDuration);
-    this.currentSoundscape = [];
+    this.setCurrentSoundscape([]);
   }
 
   /**
@@ -305,6 +454,102 @@ export class AudioController {
     return this.audioManager.toggleMute();
   }
 
+  /**
+   * Set mute state.
+   *
+   * @param muted - True to mute
+   *
+   * @example
+   * controller.setMuted(true);  // e.g. paused from the lock screen
+   */
+  setMuted(muted: boolean): void {
+    this.audioManager.setMuted(muted);
+  }
+
+  /**
+   * Start (or restart) the sleep timer.
+   *
+   * The mix fades to silence over the final minutes on the audio clock,
+   * then the soundscape is stopped. The timer belongs to the controller, so
+   * it keeps running through soundscape updates and UI re-renders.
+   *
+   * @param duration - Seconds until the soundscape stops
+   * @param fadeOutDuration - Fade-out length in seconds (default: 5 minutes, capped to the duration)
+   * @returns Time the soundscape stops (epoch milliseconds)
+   *
+   * @example
+   * controller.startSleepTimer(30 * 60);  // Fade to sleep over the last 5 of 30 minutes
+   */
+  startSleepTimer(duration: number, fadeOutDuration = SLEEP_FADE_DURATION): number {
+    if (this.sleepTimer) {
+      clearTimeout(this.sleepTimer.timeoutId);
+    }
+
+    const fade = Math.min(fadeOutDuration, duration);
+    this.audioManager.scheduleSleepFade(duration - fade, fade);
+
+    const endsAt = Date.now() + duration * 1000;
+    this.sleepTimer = {
+      endsAt,
+      timeoutId: setTimeout(() => this.finishSleepTimer(), duration * 1000),
+    };
+    this.emitSleepTimerEvent({ endsAt, completed: false });
+
+    return endsAt;
+  }
+
+  /**
+   * Cancel the sleep timer and bring the volume back up.
+   *
+   * @example
+   * controller.cancelSleepTimer();
+   */
+  cancelSleepTimer(): void {
+    if (!this.sleepTimer) return;
+
+    clearTimeout(this.sleepTimer.timeoutId);
+    this.sleepTimer = null;
+    this.audioManager.cancelSleepFade(1);
+    this.emitSleepTimerEvent({ endsAt: null, completed: false });
+  }
+
+  /**
+   * Get when the sleep timer stops the soundscape.
+   *
+   * @returns Epoch milliseconds, or null if no timer is running
+   */
+  getSleepTimerEnd(): number | null {
+    return this.sleepTimer?.endsAt ?? null;
+  }
+
+  /**
+   * Subscribe to sleep timer changes (set, cancelled, ran out).
+   *
+   * @param listener - Called on every change
+   * @returns Function that removes the listener
+   */
+  onSleepTimerChange(listener: (event: SleepTimerEvent) => void): () => void {
+    this.sleepTimerListeners.add(listener);
+    return () => {
+      this.sleepTimerListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stop the (already silent) soundscape when the sleep timer runs out,
+   * and reset the fade so the next soundscape plays at full level.
+   */
+  private finishSleepTimer(): void {
+    this.sleepTimer = null;
+    this.stopSoundscape(0);
+    this.audioManager.cancelSleepFade(0);
+    this.emitSleepTimerEvent({ endsAt: null, completed: true });
+  }
+
+  private emitSleepTimerEvent(event: SleepTimerEvent): void {
+    this.sleepTimerListeners.forEach((listener) => listener(event));
+  }
+
   /**
    * Get current soundscape layers.
    *
@@ -314,6 +559,183 @@ export class AudioController {
     return [...this.currentSoundscape];
   }
 
+  /**
+   * Turn the weather/biome effects (muffling, reverb) on or off.
+   *
+   * @param enabled - Whether effects are applied
+   * @param fadeDuration - Transition time in seconds (default: 1)
+   *
+   * @example
+   * controller.setEffectsEnabled(false);  // Dry, unfiltered mix
+   */
+  setEffectsEnabled(enabled: boolean, fadeDuration = 1): void {
+    this.effectsEnabled = enabled;
+    this.applyEffects(this.soundEffects, fadeDuration);
+  }
+
+  /**
+   * Check whether weather/biome effects are applied.
+   *
+   * @returns True if effects are on
+   */
+  getEffectsEnabled(): boolean {
+    return this.effectsEnabled;
+  }
+
+  /**
+   * Remember the effects for the current conditions and apply them
+   * (or neutral effects while they're turned off).
+   *
+   * @param effects - Effects for the current conditions
+   * @param fadeDuration - Transition time in seconds
+   */
+  private applyEffects(effects: SoundEffects, fadeDuration: number): void {
+    this.soundEffects = effects;
+    this.audioManager.setEffects(this.effectsEnabled ? effects : NEUTRAL_EFFECTS, fadeDuration);
+  }
+
+  /**
+   * Get the mixer settings for a sound.
+   *
+   * @param soundId - Sound identifier
+   * @returns User overrides, or the defaults if the sound hasn't been touched
+   */
+  getLayerMix(soundId: string): LayerMix {
+    return this.mix.get(soundId) ?? DEFAULT_LAYER_MIX;
+  }
+
+  /**
+   * Get every mixer override, keyed by sound ID.
+   *
+   * @returns Overrides for the sounds the user has changed
+   */
+  getMix(): Record<string, LayerMix> {
+    return Object.fromEntries(this.mix);
+  }
+
+  /**
+   * Change the mixer settings for a sound.
+   *
+   * Overrides are kept per sound ID, so they carry over to later
+   * soundscapes that include the same sound.
+   *
+   * @param soundId - Sound identifier
+   * @param changes - Settings to change (gain is clamped to 0 - MAX_LAYER_GAIN)
+   *
+   * @example
+   * controller.setLayerMix('rain_medium', { gain: 0.5 });  // Rain at half its usual level
+   * controller.setLayerMix('birds_far', { solo: true });
+   */
+  setLayerMix(soundId: string, changes: Partial<LayerMix>): void {
+    const mix = { ...this.getLayerMix(soundId), ...changes };
+    mix.gain = Math.max(0, Math.min(MAX_LAYER_GAIN, mix.gain));
+
+    if (mix.gain === DEFAULT_LAYER_MIX.gain && !mix.muted && !mix.solo) {
+      this.mix.delete(soundId);
+    } else {
+      this.mix.set(soundId, mix);
+    }
+
+    this.applyMix();
+  }
+
+  /**
+   * Replace every mixer override (e.g. with saved preferences).
+   *
+   * @param mix - Overrides keyed by sound ID
+   */
+  setMix(mix: Record<string, LayerMix>): void {
+    this.mix = new Map(Object.entries(mix));
+    this.applyMix();
+  }
+
+  /**
+   * Clear every mixer override.
+   */
+  resetMix(): void {
+    this.mix.clear();
+    this.applyMix();
+  }
+
+  /**
+   * Volume to play a layer at, after the mixer's gain, mute and solo.
+   *
+   * @param layer - Layer from the sound mapping
+   * @param layers - Soundscape the layer belongs to (solo only counts if a
+   *   soloed sound is part of it)
+   * @returns Volume (0.0 to MAX_LAYER_GAIN; above 1.0 when boosted)
+   */
+  private getMixedVolume(layer: SoundLayer, layers: SoundLayer[]): number {
+    const mix = this.getLayerMix(layer.soundId);
+    const hasSolo = layers.some((l) => this.getLayerMix(l.soundId).solo);
+
+    if (mix.muted || (hasSolo && !mix.solo)) return 0;
+    return layer.volume * mix.gain;
+  }
+
+  /**
+   * Fade every playing layer to its mixed volume.
+   */
+  private applyMix(): void {
+    this.currentSoundscape.forEach((layer) => {
+      this.audioManager.setVolume(
+        layer.soundId,
+        this.getMixedVolume(layer, this.currentSoundscape),
+        MIX_FADE_DURATION
+      );
+    });
+  }
+
+  /**
+   * Subscribe to changes of the current soundscape's layers.
+   *
+   * @param listener - Called with the new layers whenever they change
+   * @returns Function that removes the listener
+   */
+  onSoundscapeChange(listener: (layers: SoundLayer[]) => void): () => void {
+    this.soundscapeListeners.add(listener);
+    return () => {
+      this.soundscapeListeners.delete(listener);
+    };
+  }
+
+  private setCurrentSoundscape(layers: SoundLayer[]): void {
+    this.currentSoundscape = layers;
+    this.soundscapeListeners.forEach((listener) => listener(this.getCurrentSoundscape()));
+  }
+
+  /**
+   * Render the current soundscape to a WAV file for download.
+   *
+   * Each layer starts the way it did when the soundscape was set (start
+   * delays and fade-ins included), at its mixer volume, and keeps playing
+   * for the whole recording.
+   *
+   * @param duration - Length of the recording in seconds
+   * @param options - Format, progress and cancellation (see OfflineRenderOptions)
+   * @returns WAV file
+   * @throws Error if no soundscape is playing
+   *
+   * @example
+   * const wav = await controller.exportSoundscape(3600);  // One hour
+   */
+  async exportSoundscape(
+    duration: number,
+    options: Omit<OfflineRenderOptions, 'duration'> = {}
+  ): Promise<Blob> {
+    const layers = this.getCurrentSoundscape();
+    if (!this.isReady || layers.length === 0) {
+      throw new Error('No soundscape to export');
+    }
+
+    const mixedLayers = layers.map((layer) => ({
+      ...layer,
+      volume: this.getMixedVolume(layer, layers),
+    }));
+
+    return this.audioManager.renderToWav(mixedLayers, { ...options, duration });
+  }
+
   /**
    * Get current audio system state.
    *
@@ -347,6 +769,12 @@ export class AudioController {
    * Call when the audio system is no longer needed.
    */
   dispose(): void {
+    if (this.sleepTimer) {
+      clearTimeout(this.sleepTimer.timeoutId);
+      this.sleepTimer = null;
+    }
+    this.sleepTimerListeners.clear();
+    this.soundscapeListeners.clear();
     this.audioManager.dispose();
     this.currentSoundscape = [];
     this.isReady = false;
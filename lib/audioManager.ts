@@ -6,7 +6,12 @@
  * - Exponential volume curves for natural-sounding transitions
  * - Preloading and caching of audio buffers
  * - Master volume and mute control
- * - Intelligent loop scheduling to prevent gaps
+ * - Sleep fade (a separate gain after the master volume)
+ * - Per-file loudness normalization from the build-time sound manifest
+ * - Weather/biome effects stage (muffling filters, convolution reverb)
+ * - Sample-accurate looping on the AudioContext clock (no timers, so loops
+ *   stay gap-free in throttled background tabs)
+ * - Offline rendering of a soundscape to a WAV file (for downloads)
  *
  * Design principles:
  * - Never silence: At least one sound always playing
@@ -15,12 +20,492 @@
  * - Error resilient: Handle autoplay restrictions and missing files gracefully
  */
 
-import type { AudioTrack, PlayOptions, AudioSystemState } from '@/types/audio';
+import type {
+  AudioTrack,
+  PlayOptions,
+  AudioSystemState,
+  LoopPoints,
+  EventSchedule,
+  LoadPriority,
+  SoundLoadEvent,
+  SoundLoadStatus,
+  SoundEffects,
+  ReverbSpace,
+  SoundLayer,
+  OfflineRenderOptions,
+} from '@/types/audio';
 import {
   getAudioPath,
   getAudioPathVariants,
+  getLoopPoints,
   calculateFadeDuration,
+  getNormalizationGain,
 } from './audioUtils';
+import { createImpulseResponse } from './impulseResponses';
+import { encodePcm16, encodeWavHeader } from './wavEncoder';
+
+/**
+ * Effects settings that leave the mix untouched (no muffling, dry).
+ */
+export const NEUTRAL_EFFECTS: SoundEffects = {
+  lowpassFrequency: 20000,
+  highShelfGain: 0,
+  reverb: null,
+};
+
+/**
+ * Corner frequency of the muffling high shelf (Hz).
+ */
+const HIGH_SHELF_FREQUENCY = 4000;
+
+/**
+ * Shortest effects change, so immediate changes still don't click.
+ */
+const MIN_EFFECT_RAMP = 0.05;
+
+/**
+ * Files fetched/decoded at once. Kept low so a newly requested critical
+ * file doesn't wait behind a long line of background downloads.
+ */
+const MAX_CONCURRENT_LOADS = 3;
+
+/**
+ * Queue order for load priorities (lower loads first).
+ */
+const LOAD_PRIORITY_RANK: Record<LoadPriority, number> = {
+  critical: 0,
+  normal: 1,
+  background: 2,
+};
+
+/**
+ * Minimum download progress between 'downloading' events for one file.
+ */
+const PROGRESS_EVENT_STEP = 0.05;
+
+/**
+ * A file waiting for or being loaded by the prioritized loader.
+ */
+interface PendingLoad {
+  soundId: string;
+  priority: LoadPriority;
+  promise: Promise<AudioBuffer | null>;
+  resolve: (buffer: AudioBuffer | null) => void;
+}
+
+/**
+ * Default randomness of event spacing when a schedule doesn't set one.
+ */
+const DEFAULT_EVENT_JITTER = 0.5;
+
+/**
+ * Events scheduled ahead of the one currently playing.
+ * Each finished event schedules a replacement, so the queue never runs dry
+ * and no main-thread timer is involved.
+ */
+const EVENT_LOOKAHEAD = 2;
+
+/**
+ * Longest fade applied to the edges of an event excerpt, in seconds.
+ */
+const MAX_EXCERPT_FADE = 1.5;
+
+/**
+ * Seconds rendered per OfflineAudioContext when exporting. Long recordings
+ * are rendered piece by piece so only one chunk is held as float samples.
+ */
+const RENDER_CHUNK_SECONDS = 60;
+
+/**
+ * Audio rendered before each export chunk and discarded, so reverb tails
+ * and the limiter carry across chunk boundaries (longer than any impulse response).
+ */
+const RENDER_PREROLL_SECONDS = 4;
+
+const DEFAULT_RENDER_SAMPLE_RATE = 44100;
+const DEFAULT_RENDER_FADE_OUT = 5;
+
+/**
+ * Floor for exponential gain ramps (they can't start or end at 0).
+ */
+const FADE_EPSILON = 0.001;
+
+/**
+ * Gain automation point on an export's timeline.
+ */
+interface EnvelopePoint {
+  /** Seconds from the start of the recording */
+  time: number;
+
+  /** Gain (scaled by the envelope's level when scheduled) */
+  level: number;
+
+  /** Ramp into this point exponentially instead of linearly */
+  exponential?: boolean;
+}
+
+/**
+ * One layer of an export, with everything random decided up front so every
+ * chunk renders the same performance.
+ */
+interface RenderTrack {
+  /** Loop buffer for looping layers, otherwise the decoded file */
+  buffer: AudioBuffer;
+  loop: boolean;
+  /** Seconds from the start of the recording */
+  startTime: number;
+  /** Layer volume × loudness normalization */
+  level: number;
+  pan: number;
+  envelope: EnvelopePoint[];
+  /** Pre-rolled one-shots for event layers */
+  events?: RenderEvent[];
+}
+
+/**
+ * A single pre-rolled one-shot of an event layer.
+ */
+interface RenderEvent {
+  time: number;
+  /** Start offset into the file and length played, in seconds */
+  offset: number;
+  length: number;
+  volume: number;
+  pan: number | null;
+  envelope: EnvelopePoint[];
+}
+
+/**
+ * Clamp a stereo position to the StereoPannerNode range.
+ *
+ * @param pan - Requested position
+ * @returns Position between -1 (left) and 1 (right)
+ */
+function clampPan(pan: number): number {
+  return Math.max(-1, Math.min(1, pan));
+}
+
+/**
+ * Glide an AudioParam from its current value to a target.
+ *
+ * @param param - Parameter to automate
+ * @param target - Target value
+ * @param now - Current AudioContext time
+ * @param end - Time the target is reached
+ * @param exponential - Use an exponential ramp (target and current value must be > 0)
+ */
+function rampParam(
+  param: AudioParam,
+  target: number,
+  now: number,
+  end: number,
+  exponential: boolean
+): void {
+  param.cancelScheduledValues(now);
+  param.setValueAtTime(param.value, now);
+
+  if (exponential) {
+    param.exponentialRampToValueAtTime(target, end);
+  } else {
+    param.linearRampToValueAtTime(target, end);
+  }
+}
+
+/**
+ * Value of a gain envelope at a point in time, following the same ramp
+ * shapes the AudioParam would.
+ *
+ * @param points - Envelope points in time order
+ * @param time - Seconds from the start of the recording
+ * @returns Envelope level
+ */
+function getEnvelopeLevel(points: EnvelopePoint[], time: number): number {
+  const nextIndex = points.findIndex((point) => point.time > time);
+  if (nextIndex === -1) return points[points.length - 1].level;
+  if (nextIndex === 0) return points[0].level;
+
+  const previous = points[nextIndex - 1];
+  const next = points[nextIndex];
+  const progress = (time - previous.time) / (next.time - previous.time);
+
+  return next.exponential
+    ? previous.level * (next.level / previous.level) ** progress
+    : previous.level + (next.level - previous.level) * progress;
+}
+
+/**
+ * Schedule the part of a gain envelope from a render chunk's start onwards.
+ *
+ * @param param - Gain parameter in the chunk's context
+ * @param points - Envelope points in time order
+ * @param chunkStart - Recording time at the chunk's context time 0
+ * @param level - Scale applied to every point
+ */
+function scheduleEnvelope(
+  param: AudioParam,
+  points: EnvelopePoint[],
+  chunkStart: number,
+  level: number
+): void {
+  param.setValueAtTime(getEnvelopeLevel(points, chunkStart) * level, 0);
+
+  points
+    .filter((point) => point.time > chunkStart)
+    .forEach((point) => {
+      if (point.exponential) {
+        param.exponentialRampToValueAtTime(point.level * level, point.time - chunkStart);
+      } else {
+        param.linearRampToValueAtTime(point.level * level, point.time - chunkStart);
+      }
+    });
+}
+
+/**
+ * Pick the time until the next event.
+ *
+ * Blends a fixed interval with an exponential (Poisson) one by `jitter`;
+ * both have the same mean, so the average rate is kept either way.
+ *
+ * @param schedule - Event timing parameters
+ * @returns Seconds until the next event (at least `minGap`)
+ */
+function getEventInterval(schedule: EventSchedule): number {
+  const meanInterval = 60 / Math.max(0.01, schedule.ratePerMinute);
+  const jitter = Math.max(0, Math.min(1, schedule.jitter ?? DEFAULT_EVENT_JITTER));
+  const exponential = -Math.log(1 - Math.random());
+
+  return Math.max(schedule.minGap ?? 0, meanInterval * (1 - jitter + jitter * exponential));
+}
+
+/**
+ * Loudest track volume. Above 1.0 boosts a (normalized) track, as the mixer
+ * does; the output limiter keeps the sum from clipping.
+ */
+const MAX_TRACK_VOLUME = 2;
+
+/**
+ * Configure a compressor as the output safety limiter.
+ *
+ * Tracks are loudness-normalized (see getNormalizationGain), so it only
+ * engages when several loud layers peak at once.
+ *
+ * @param compressor - Compressor at the end of the chain
+ */
+function configureLimiter(compressor: DynamicsCompressorNode): void {
+  // threshold: -6dB (start limiting just below full scale)
+  // knee: 3dB (short transition into limiting)
+  // ratio: 20:1 (hard limiting - for every 20dB over threshold, only allow 1dB through)
+  // attack: 0.003s (3ms - fast response to prevent peaks)
+  // release: 0.25s (250ms - smooth recovery)
+  compressor.threshold.value = -6;
+  compressor.knee.value = 3;
+  compressor.ratio.value = 20;
+  compressor.attack.value = 0.003;
+  compressor.release.value = 0.25;
+}
+
+/**
+ * Roll a single one-shot of an event layer for an export, the way
+ * scheduleEvent() would play it.
+ *
+ * @param schedule - Event timing and level parameters
+ * @param buffer - Decoded event sound
+ * @param time - Seconds from the start of the recording
+ * @returns Pre-rolled event
+ */
+function createRenderEvent(schedule: EventSchedule, buffer: AudioBuffer, time: number): RenderEvent {
+  const [minVolume, maxVolume] = schedule.volumeRange;
+  const volume = minVolume + Math.random() * (maxVolume - minVolume);
+
+  const pan = schedule.panRange
+    ? clampPan(schedule.panRange[0] + Math.random() * (schedule.panRange[1] - schedule.panRange[0]))
+    : null;
+
+  if (schedule.excerptDuration && schedule.excerptDuration < buffer.duration) {
+    const length = schedule.excerptDuration;
+    const fade = Math.min(MAX_EXCERPT_FADE, length / 4);
+
+    return {
+      time,
+      offset: Math.random() * (buffer.duration - length),
+      length,
+      volume,
+      pan,
+      envelope: [
+        { time, level: 0 },
+        { time: time + fade, level: 1 },
+        { time: time + length - fade, level: 1 },
+        { time: time + length, level: 0 },
+      ],
+    };
+  }
+
+  return { time, offset: 0, length: buffer.duration, volume, pan, envelope: [{ time, level: 1 }] };
+}
+
+/**
+ * Render one chunk of an export in its own OfflineAudioContext.
+ *
+ * The chain mirrors the live one (track gain → panner → high shelf →
+ * low-pass → dry + reverb → limiter) at full master volume; every track
+ * and event is started at its position in the recording.
+ *
+ * @param tracks - Export layers
+ * @param effects - Effects applied to the mix
+ * @param chunkStart - Recording time (seconds) the chunk starts at
+ * @param frameCount - Chunk length in sample frames
+ * @param sampleRate - Output sample rate
+ * @returns Rendered stereo audio
+ */
+function renderChunk(
+  tracks: RenderTrack[],
+  effects: SoundEffects,
+  chunkStart: number,
+  frameCount: number,
+  sampleRate: number
+): Promise<AudioBuffer> {
+  const context = new OfflineAudioContext(2, frameCount, sampleRate);
+  const chunkEnd = chunkStart + frameCount / sampleRate;
+
+  const effectsInput = context.createGain();
+  const highShelf = context.createBiquadFilter();
+  highShelf.type = 'highshelf';
+  highShelf.frequency.value = HIGH_SHELF_FREQUENCY;
+  highShelf.gain.value = effects.highShelfGain;
+  const lowpass = context.createBiquadFilter();
+  lowpass.type = 'lowpass';
+  lowpass.frequency.value = effects.lowpassFrequency;
+  const limiter = context.createDynamicsCompressor();
+  configureLimiter(limiter);
+
+  effectsInput.connect(highShelf);
+  highShelf.connect(lowpass);
+  lowpass.connect(limiter);
+  limiter.connect(context.destination);
+
+  if (effects.reverb) {
+    const convolver = context.createConvolver();
+    convolver.buffer = createImpulseResponse(context, effects.reverb.space);
+    const wetGain = context.createGain();
+    wetGain.gain.value = effects.reverb.mix;
+
+    lowpass.connect(convolver);
+    convolver.connect(wetGain);
+    wetGain.connect(limiter);
+  }
+
+  tracks.forEach((track) => {
+    const gainNode = context.createGain();
+    scheduleEnvelope(gainNode.gain, track.envelope, chunkStart, track.level);
+    const pannerNode = context.createStereoPanner();
+    pannerNode.pan.value = track.pan;
+    gainNode.connect(pannerNode);
+    pannerNode.connect(effectsInput);
+
+    if (track.events) {
+      track.events
+        .filter((event) => event.time < chunkEnd && event.time + event.length > chunkStart)
+        .forEach((event) => {
+          const source = context.createBufferSource();
+          source.buffer = track.buffer;
+
+          const eventGain = context.createGain();
+          scheduleEnvelope(eventGain.gain, event.envelope, chunkStart, event.volume);
+          source.connect(eventGain);
+
+          if (event.pan !== null) {
+            const eventPanner = context.createStereoPanner();
+            eventPanner.pan.value = event.pan;
+            eventGain.connect(eventPanner);
+            eventPanner.connect(gainNode);
+          } else {
+            eventGain.connect(gainNode);
+          }
+
+          // Events already under way when the chunk starts pick up where they are
+          const elapsed = Math.max(0, chunkStart - event.time);
+          source.start(Math.max(0, event.time - chunkStart), event.offset + elapsed, event.length - elapsed);
+        });
+      return;
+    }
+
+    const elapsed = chunkStart - track.startTime;
+    if (!track.loop && elapsed >= track.buffer.duration) return;
+
+    const source = context.createBufferSource();
+    source.buffer = track.buffer;
+    source.loop = track.loop;
+    source.connect(gainNode);
+
+    if (elapsed >= 0) {
+      source.start(0, track.loop ? elapsed % track.buffer.duration : elapsed);
+    } else {
+      source.start(-elapsed);
+    }
+  });
+
+  return context.startRendering();
+}
+
+/**
+ * Build a seamless loop buffer for a region of an audio buffer.
+ *
+ * The last `crossfade` seconds of the region are blended into its first
+ * `crossfade` seconds with an equal-power curve, and the blended tail is
+ * dropped. Looping the result end-to-end (native `source.loop`) then passes
+ * through the crossfade at every wrap, with no scheduling on the main thread.
+ *
+ *   source:  [start ...... body ...... | tail ]end
+ *   loop:    [tail→start blend | body ]  ↺
+ *
+ * @param context - Audio context used to allocate the buffer
+ * @param buffer - Decoded source audio
+ * @param loopPoints - Loop region and crossfade (seconds)
+ * @returns Buffer that loops seamlessly from its first to last sample
+ */
+function createLoopBuffer(
+  context: BaseAudioContext,
+  buffer: AudioBuffer,
+  loopPoints: LoopPoints
+): AudioBuffer {
+  const { sampleRate, numberOfChannels } = buffer;
+
+  const startSample = Math.round(
+    Math.max(0, Math.min(buffer.duration, loopPoints.start ?? 0)) * sampleRate
+  );
+  const endSample = Math.round(
+    Math.max(0, Math.min(buffer.duration, loopPoints.end ?? buffer.duration)) * sampleRate
+  );
+  const regionLength = endSample - startSample;
+
+  if (regionLength <= 1) return buffer;
+
+  // Crossfade can't exceed half the region (the tail would overlap the blend)
+  const crossfadeSeconds = loopPoints.crossfade ?? calculateFadeDuration(regionLength / sampleRate);
+  const crossfadeLength = Math.min(
+    Math.floor(regionLength / 2),
+    Math.max(0, Math.round(crossfadeSeconds * sampleRate))
+  );
+
+  const loopLength = regionLength - crossfadeLength;
+  const loopBuffer = context.createBuffer(numberOfChannels, loopLength, sampleRate);
+  const tailStart = endSample - crossfadeLength;
+
+  for (let channel = 0; channel < numberOfChannels; channel++) {
+    const input = buffer.getChannelData(channel);
+    const output = loopBuffer.getChannelData(channel);
+
+    output.set(input.subarray(startSample, startSample + loopLength));
+
+    for (let i = 0; i < crossfadeLength; i++) {
+      // Equal-power: tail fades out as the loop start fades in
+      const phase = ((i + 0.5) / crossfadeLength) * (Math.PI / 2);
+      output[i] = input[tailStart + i] * Math.cos(phase) + input[startSample + i] * Math.sin(phase);
+    }
+  }
+
+  return loopBuffer;
+}
 
 /**
  * AudioManager - Web Audio API-based sound engine.
@@ -32,12 +517,22 @@ export class AudioManager {
   // Web Audio API core
   private audioContext: AudioContext | null = null;
   private masterGainNode: GainNode | null = null;
+  // Sleep timer fade, kept apart from the user's volume and mute
+  private sleepGainNode: GainNode | null = null;
   private compressorNode: DynamicsCompressorNode | null = null;
 
+  // Effects stage: tracks → effects input → high shelf → low-pass → dry + reverbs → master gain
+  private effectsInputNode: GainNode | null = null;
+  private highShelfNode: BiquadFilterNode | null = null;
+  private lowpassNode: BiquadFilterNode | null = null;
+  private reverbs: Map<ReverbSpace, { convolver: ConvolverNode; wetGain: GainNode }> = new Map();
+  private effects: SoundEffects = NEUTRAL_EFFECTS;
+
   // Track management
   private activeTracks: Map<string, AudioTrack> = new Map();
   private audioBuffers: Map<string, AudioBuffer> = new Map();
-  private loopTimeouts: Map<string, number> = new Map();
+  // Crossfaded loop buffers, keyed by sound ID + loop points
+  private loopBuffers: Map<string, AudioBuffer> = new Map();
 
   // State
   private isMuted = false;
@@ -46,6 +541,12 @@ export class AudioManager {
   private preloadComplete = false;
   private failedLoads: string[] = [];
 
+  // Prioritized loader
+  private pendingLoads: Map<string, PendingLoad> = new Map();
+  private loadQueue: PendingLoad[] = [];
+  private activeLoadCount = 0;
+  private loadListeners: Set<(event: SoundLoadEvent) => void> = new Set();
+
   /**
    * Initialize the audio context and master gain node.
    *
@@ -75,28 +576,33 @@ export class AudioManager {
       const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
       this.audioContext = new AudioContextClass();
 
-      // Create dynamics compressor to prevent clipping and control max volume
-      // This acts as a "limiter" to ensure audio never gets too loud
+      // Create dynamics compressor as a safety limiter to prevent clipping
       this.compressorNode = this.audioContext.createDynamicsCompressor();
-
-      // Configure compressor settings
-      // threshold: -10dB (start compressing when audio exceeds this level)
-      // knee: 10dB (smooth transition into compression)
-      // ratio: 12:1 (aggressive limiting - for every 12dB over threshold, only allow 1dB through)
-      // attack: 0.003s (3ms - fast response to prevent peaks)
-      // release: 0.25s (250ms - smooth recovery)
-      this.compressorNode.threshold.value = -10;
-      this.compressorNode.knee.value = 10;
-      this.compressorNode.ratio.value = 12;
-      this.compressorNode.attack.value = 0.003;
-      this.compressorNode.release.value = 0.25;
+      configureLimiter(this.compressorNode);
 
       // Create master gain node for volume control
       this.masterGainNode = this.audioContext.createGain();
       this.masterGainNode.gain.value = this.masterVolume;
-
-      // Audio chain: individual track gains → master gain → compressor → destination
-      this.masterGainNode.connect(this.compressorNode);
+      this.sleepGainNode = this.audioContext.createGain();
+
+      // Effects stage, starting neutral (see setEffects)
+      this.effectsInputNode = this.audioContext.createGain();
+      this.highShelfNode = this.audioContext.createBiquadFilter();
+      this.highShelfNode.type = 'highshelf';
+      this.highShelfNode.frequency.value = HIGH_SHELF_FREQUENCY;
+      this.highShelfNode.gain.value = NEUTRAL_EFFECTS.highShelfGain;
+      this.lowpassNode = this.audioContext.createBiquadFilter();
+      this.lowpassNode.type = 'lowpass';
+      this.lowpassNode.frequency.value = NEUTRAL_EFFECTS.lowpassFrequency;
+      this.effects = NEUTRAL_EFFECTS;
+
+      // Audio chain: individual track gains → effects → master gain → sleep gain → compressor → destination
+      // (reverbs branch off the low-pass and rejoin at the master gain)
+      this.effectsInputNode.connect(this.highShelfNode);
+      this.highShelfNode.connect(this.lowpassNode);
+      this.lowpassNode.connect(this.masterGainNode);
+      this.masterGainNode.connect(this.sleepGainNode);
+      this.sleepGainNode.connect(this.compressorNode);
       this.compressorNode.connect(this.audioContext.destination);
 
       // Resume context if suspended (autoplay policy)
@@ -113,13 +619,13 @@ export class AudioManager {
   }
 
   /**
-   * Preload all audio files into memory.
+   * Preload audio files into memory in the background.
    *
-   * Fetches and decodes audio files in parallel for instant playback.
-   * Call this during app loading or after init() to prepare the audio system.
+   * Queues files at background priority, so anything the current soundscape
+   * needs (requested via loadSounds or play) still loads first.
    *
-   * @param soundIds - Array of sound IDs to preload (if empty, preloads all)
-   * @returns Promise that resolves when all files are loaded
+   * @param soundIds - Array of sound IDs to preload
+   * @returns Promise that resolves when all files are loaded (or failed)
    *
    * @example
    * await audioManager.preloadSounds(['birds_far', 'rain_medium', 'wind_forest_medium']);
@@ -132,15 +638,13 @@ export class AudioManager {
     console.log(`Preloading ${soundIds.length} audio files...`);
     const startTime = Date.now();
 
-    // Load all sounds in parallel
-    const loadPromises = soundIds.map((soundId) => this.loadAudioBuffer(soundId));
-    await Promise.allSettled(loadPromises);
+    await this.loadSounds(soundIds, 'background');
 
     const duration = Date.now() - startTime;
-    const successCount = soundIds.length - this.failedLoads.length;
+    const failedCount = soundIds.filter((soundId) => this.failedLoads.includes(soundId)).length;
 
     console.log(
-      `Preloaded ${successCount}/${soundIds.length} audio files in ${duration}ms`
+      `Preloaded ${soundIds.length - failedCount}/${soundIds.length} audio files in ${duration}ms`
     );
 
     if (this.failedLoads.length > 0) {
@@ -150,20 +654,182 @@ export class AudioManager {
     this.preloadComplete = true;
   }
 
+  /**
+   * Load a set of audio files through the prioritized loader.
+   *
+   * Files already queued at a lower priority are moved up; files already
+   * loaded resolve immediately.
+   *
+   * @param soundIds - Sound IDs to load
+   * @param priority - Queue priority (default: normal)
+   * @returns Promise that resolves when every file has loaded or failed
+   *
+   * @example
+   * await audioManager.loadSounds(['waves_medium_close'], 'critical');
+   */
+  async loadSounds(soundIds: string[], priority: LoadPriority = 'normal'): Promise<void> {
+    await Promise.all(soundIds.map((soundId) => this.loadSound(soundId, priority)));
+  }
+
+  /**
+   * Check whether a sound's audio is decoded and ready to play.
+   *
+   * @param soundId - Sound identifier
+   * @returns True if the buffer is loaded
+   */
+  isLoaded(soundId: string): boolean {
+    return this.audioBuffers.has(soundId);
+  }
+
+  /**
+   * Subscribe to per-file loading progress.
+   *
+   * @param listener - Called for every status/progress change of every file
+   * @returns Function that removes the listener
+   *
+   * @example
+   * const unsubscribe = audioManager.addLoadListener((event) => {
+   *   console.log(event.soundId, event.status, event.progress);
+   * });
+   */
+  addLoadListener(listener: (event: SoundLoadEvent) => void): () => void {
+    this.loadListeners.add(listener);
+    return () => {
+      this.loadListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queue a single file (or raise its priority) and resolve when it's loaded.
+   *
+   * @param soundId - Sound identifier
+   * @param priority - Queue priority
+   * @returns Promise resolving to the AudioBuffer, or null if loading failed
+   */
+  private loadSound(soundId: string, priority: LoadPriority): Promise<AudioBuffer | null> {
+    const buffer = this.audioBuffers.get(soundId);
+    if (buffer) return Promise.resolve(buffer);
+
+    const pending = this.pendingLoads.get(soundId);
+    if (pending) {
+      if (LOAD_PRIORITY_RANK[priority] < LOAD_PRIORITY_RANK[pending.priority]) {
+        pending.priority = priority;
+        // Re-announce so listeners tracking this priority pick it up
+        if (this.loadQueue.includes(pending)) {
+          this.emitLoadEvent(pending, 'queued', 0);
+        }
+      }
+      return pending.promise;
+    }
+
+    let resolve!: (buffer: AudioBuffer | null) => void;
+    const promise = new Promise<AudioBuffer | null>((r) => {
+      resolve = r;
+    });
+
+    const load: PendingLoad = { soundId, priority, promise, resolve };
+    this.pendingLoads.set(soundId, load);
+    this.loadQueue.push(load);
+    this.emitLoadEvent(load, 'queued', 0);
+    this.pumpLoadQueue();
+
+    return promise;
+  }
+
+  /**
+   * Start queued loads, highest priority first, up to MAX_CONCURRENT_LOADS.
+   */
+  private pumpLoadQueue(): void {
+    while (this.activeLoadCount < MAX_CONCURRENT_LOADS && this.loadQueue.length > 0) {
+      // Stable pick: highest priority, then first queued
+      const next = this.loadQueue.reduce((best, load) =>
+        LOAD_PRIORITY_RANK[load.priority] < LOAD_PRIORITY_RANK[best.priority] ? load : best
+      );
+      this.loadQueue.splice(this.loadQueue.indexOf(next), 1);
+      this.activeLoadCount++;
+
+      this.loadAudioBuffer(next)
+        .catch(() => null)
+        .then((buffer) => {
+          this.activeLoadCount--;
+          this.pendingLoads.delete(next.soundId);
+          next.resolve(buffer);
+          this.pumpLoadQueue();
+        });
+    }
+  }
+
+  private emitLoadEvent(load: PendingLoad, status: SoundLoadStatus, progress: number): void {
+    const event: SoundLoadEvent = {
+      soundId: load.soundId,
+      status,
+      progress,
+      priority: load.priority,
+    };
+    this.loadListeners.forEach((listener) => listener(event));
+  }
+
+  /**
+   * Read a response body, emitting download progress for the file.
+   * Falls back to a single read when the size is unknown.
+   *
+   * @param response - Successful fetch response
+   * @param load - File being loaded
+   * @returns Complete response body
+   */
+  private async readWithProgress(response: Response, load: PendingLoad): Promise<ArrayBuffer> {
+    const totalBytes = Number(response.headers.get('Content-Length'));
+
+    if (!response.body || !totalBytes) {
+      return response.arrayBuffer();
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let receivedBytes = 0;
+    let reportedProgress = 0;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      chunks.push(value);
+      receivedBytes += value.length;
+
+      // Content-Length can be off (e.g. compressed transfer), so cap at 1
+      const progress = Math.min(1, receivedBytes / totalBytes);
+      if (progress - reportedProgress >= PROGRESS_EVENT_STEP) {
+        reportedProgress = progress;
+        this.emitLoadEvent(load, 'downloading', progress);
+      }
+    }
+
+    const body = new Uint8Array(receivedBytes);
+    let offset = 0;
+    for (const chunk of chunks) {
+      body.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    return body.buffer;
+  }
+
   /**
    * Load and decode a single audio file into an AudioBuffer.
    *
    * Tries multiple file extensions (.ogg, .mp3, .wav) for browser compatibility.
    * Caches the buffer for reuse.
    *
-   * @param soundId - Sound identifier
+   * @param load - Queued file to load
    * @returns Promise resolving to AudioBuffer
    */
-  private async loadAudioBuffer(soundId: string): Promise<AudioBuffer | null> {
+  private async loadAudioBuffer(load: PendingLoad): Promise<AudioBuffer | null> {
     if (!this.audioContext) {
       throw new Error('AudioContext not initialized');
     }
 
+    const { soundId } = load;
+
     // Check if already loaded
     if (this.audioBuffers.has(soundId)) {
       return this.audioBuffers.get(soundId)!;
@@ -177,10 +843,14 @@ export class AudioManager {
         const response = await fetch(path);
         if (!response.ok) continue;
 
-        const arrayBuffer = await response.arrayBuffer();
+        this.emitLoadEvent(load, 'downloading', 0);
+        const arrayBuffer = await this.readWithProgress(response, load);
+
+        this.emitLoadEvent(load, 'decoding', 1);
         const audioBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
 
         this.audioBuffers.set(soundId, audioBuffer);
+        this.emitLoadEvent(load, 'loaded', 1);
         return audioBuffer;
       } catch (error) {
         // Try next format
@@ -191,14 +861,45 @@ export class AudioManager {
     // All formats failed
     console.error(`Failed to load audio file: ${soundId}`);
     this.failedLoads.push(soundId);
+    this.emitLoadEvent(load, 'failed', 1);
     return null;
   }
 
+  /**
+   * Get (or build and cache) the seamless loop buffer for a sound.
+   *
+   * @param soundId - Sound identifier
+   * @param buffer - Decoded source audio
+   * @param overrides - Loop points merged over the sound's registered ones
+   * @returns Buffer to play with native looping
+   */
+  private getLoopBuffer(
+    soundId: string,
+    buffer: AudioBuffer,
+    overrides?: LoopPoints
+  ): AudioBuffer {
+    const loopPoints = { ...getLoopPoints(soundId), ...overrides };
+    const key = `${soundId}:${loopPoints.start ?? ''}:${loopPoints.end ?? ''}:${
+      loopPoints.crossfade ?? ''
+    }`;
+
+    let loopBuffer = this.loopBuffers.get(key);
+    if (!loopBuffer) {
+      loopBuffer = createLoopBuffer(this.audioContext!, buffer, loopPoints);
+      this.loopBuffers.set(key, loopBuffer);
+    }
+
+    return loopBuffer;
+  }
+
   /**
    * Play a sound with specified options.
    *
    * Creates a new AudioBufferSourceNode and applies fade-in if requested.
-   * For looping tracks, automatically schedules seamless crossfades.
+   * Looping tracks play a crossfaded loop buffer with native looping, so the
+   * loop runs on the audio clock for as long as the track plays.
+   * With `options.event`, the track is instead a stream of randomized
+   * one-shots (see EventSchedule); its volume scales every event.
    *
    * @param soundId - Sound identifier to play
    * @param options - Playback configuration
@@ -210,9 +911,16 @@ export class AudioManager {
    *   fadeInDuration: 3,
    *   category: 'base'
    * });
+   *
+   * audioManager.play('thunder_light_far', {
+   *   volume: 0.5,
+   *   loop: false,
+   *   category: 'event',
+   *   event: { ratePerMinute: 2, jitter: 0.8, volumeRange: [0.4, 1], minGap: 8 }
+   * });
    */
   play(soundId: string, options: PlayOptions): void {
-    if (!this.audioContext || !this.masterGainNode) {
+    if (!this.audioContext || !this.effectsInputNode) {
       console.error('AudioManager not initialized');
       return;
     }
@@ -220,7 +928,7 @@ export class AudioManager {
     // Load buffer if not already loaded
     if (!this.audioBuffers.has(soundId)) {
       console.warn(`Sound not preloaded: ${soundId}. Loading now...`);
-      this.loadAudioBuffer(soundId).then((buffer) => {
+      this.loadSound(soundId, 'critical').then((buffer) => {
         if (buffer) {
           this.play(soundId, options);
         }
@@ -240,16 +948,17 @@ export class AudioManager {
       this.stop(soundId, options.fadeInDuration || 0);
     }
 
-    // Create source node
-    const source = this.audioContext.createBufferSource();
-    source.buffer = buffer;
-
-    // Create gain node for individual track volume control
+    // Create gain node for individual track volume control, followed by
+    // loudness normalization and stereo placement:
+    // track gain → normalization → panner → effects stage
     const gainNode = this.audioContext.createGain();
-    gainNode.connect(this.masterGainNode);
-
-    // Connect source to gain
-    source.connect(gainNode);
+    const normalizationNode = this.audioContext.createGain();
+    normalizationNode.gain.value = getNormalizationGain(soundId);
+    const pannerNode = this.audioContext.createStereoPanner();
+    pannerNode.pan.value = clampPan(options.pan ?? 0);
+    gainNode.connect(normalizationNode);
+    normalizationNode.connect(pannerNode);
+    pannerNode.connect(this.effectsInputNode);
 
     // Set initial volume (start at 0 if fading in)
     const startVolume = options.fadeInDuration ? 0 : options.volume;
@@ -258,111 +967,178 @@ export class AudioManager {
     // Start playback with optional delay (minimum 0.02s for Web Audio API stability)
     const minDelay = 0.02;
     const startTime = this.audioContext.currentTime + Math.max(minDelay, options.startDelay || 0);
-    source.start(startTime);
 
     // Apply fade-in if requested
     if (options.fadeInDuration && options.fadeInDuration > 0) {
       this.fadeVolume(gainNode, 0, options.volume, options.fadeInDuration, startTime);
     }
 
+    // Event streams have no continuous source; events are scheduled below
+    let source: AudioBufferSourceNode | null = null;
+
+    if (!options.event) {
+      source = this.audioContext.createBufferSource();
+      source.buffer = options.loop
+        ? this.getLoopBuffer(soundId, buffer, options.loopPoints)
+        : buffer;
+      source.loop = options.loop;
+      source.connect(gainNode);
+      source.start(startTime);
+    }
+
     // Store track info
     const track: AudioTrack = {
       soundId,
       source,
       gainNode,
+      normalizationNode,
+      pannerNode,
       volume: options.volume,
       isLooping: options.loop,
       category: options.category || 'base',
       startTime: startTime,
-      duration: buffer.duration,
+      duration: source?.buffer?.duration ?? buffer.duration,
       isFadingOut: false,
+      events: options.event
+        ? {
+            schedule: options.event,
+            buffer,
+            nextTime: startTime + getEventInterval(options.event),
+            sources: new Set(),
+            stopped: false,
+          }
+        : undefined,
     };
 
     this.activeTracks.set(soundId, track);
 
-    // Schedule loop if enabled
-    if (options.loop) {
-      this.scheduleLoop(soundId, track);
+    if (!source) {
+      for (let i = 0; i < EVENT_LOOKAHEAD; i++) {
+        this.scheduleEvent(track);
+      }
+      return;
     }
 
-    // Handle track end (for non-looping tracks)
+    // Clean up when the source ends (one-shots finish, loops end when stopped).
+    // A replacement track may already own this sound ID, so only remove our own.
     source.onended = () => {
-      if (!options.loop) {
+      source.disconnect();
+      gainNode.disconnect();
+      normalizationNode.disconnect();
+      pannerNode.disconnect();
+
+      if (this.activeTracks.get(soundId) === track) {
         this.activeTracks.delete(soundId);
-        this.loopTimeouts.delete(soundId);
       }
     };
   }
 
   /**
-   * Schedule seamless loop restart with crossfade.
+   * Schedule the next one-shot of an event stream on the audio clock.
    *
-   * Starts fading in the next iteration before the current one ends,
-   * creating a smooth, gap-free loop. Both fade-out and fade-in use the
-   * same duration to ensure perfect symmetry, which masks any imperfections
-   * in the audio loop points.
+   * Each event gets a random volume from the schedule's range and, for
+   * excerpts, a random start offset with short edge fades. When an event
+   * ends it schedules the next, keeping EVENT_LOOKAHEAD events queued.
    *
-   * @param soundId - Sound identifier
-   * @param track - Active track to loop
+   * @param track - Event stream track
    */
-  private scheduleLoop(soundId: string, track: AudioTrack): void {
-    if (!this.audioContext) return;
+  private scheduleEvent(track: AudioTrack): void {
+    const events = track.events;
+    if (!this.audioContext || !events || events.stopped) return;
 
-    // Clear any existing loop timeout
-    const existingTimeout = this.loopTimeouts.get(soundId);
-    if (existingTimeout) {
-      clearTimeout(existingTimeout);
-    }
+    const { schedule, buffer } = events;
 
-    // Calculate when to start the crossfade (12.5% of track length, 2-30 seconds)
-    const fadeDuration = calculateFadeDuration(track.duration);
-    const timeUntilCrossfade = Math.max(0, track.duration - fadeDuration) * 1000;
+    // A slow callback can leave nextTime in the past; never schedule behind the clock
+    const when = Math.max(this.audioContext.currentTime + 0.05, events.nextTime);
+    events.nextTime = when + getEventInterval(schedule);
 
-    console.log(
-      `Scheduling loop crossfade for ${soundId}: ${fadeDuration.toFixed(1)}s fade after ${(
-        timeUntilCrossfade / 1000
-      ).toFixed(1)}s`
-    );
+    const [minVolume, maxVolume] = schedule.volumeRange;
+    const volume = minVolume + Math.random() * (maxVolume - minVolume);
 
-    // Schedule the crossfade
-    const timeoutId = window.setTimeout(() => {
-      if (!this.activeTracks.has(soundId)) return;
+    const source = this.audioContext.createBufferSource();
+    source.buffer = buffer;
 
-      const currentTrack = this.activeTracks.get(soundId)!;
+    const eventGain = this.audioContext.createGain();
+    source.connect(eventGain);
+
+    // Optionally place each event somewhere different in the stereo field
+    let eventPanner: StereoPannerNode | null = null;
+    if (schedule.panRange) {
+      const [minPan, maxPan] = schedule.panRange;
+      eventPanner = this.audioContext.createStereoPanner();
+      eventPanner.pan.value = clampPan(minPan + Math.random() * (maxPan - minPan));
+      eventGain.connect(eventPanner);
+      eventPanner.connect(track.gainNode);
+    } else {
+      eventGain.connect(track.gainNode);
+    }
 
-      // Mark track as fading out to prevent play() from stopping it prematurely
-      currentTrack.isFadingOut = true;
+    if (schedule.excerptDuration && schedule.excerptDuration < buffer.duration) {
+      const length = schedule.excerptDuration;
+      const offset = Math.random() * (buffer.duration - length);
+      const fade = Math.min(MAX_EXCERPT_FADE, length / 4);
 
-      // IMPORTANT: Use the same fadeDuration for both fade-out and fade-in
-      // This creates symmetrical crossfade that hides any loop point mismatches
+      eventGain.gain.setValueAtTime(0, when);
+      eventGain.gain.linearRampToValueAtTime(volume, when + fade);
+      eventGain.gain.setValueAtTime(volume, when + length - fade);
+      eventGain.gain.linearRampToValueAtTime(0, when + length);
+      source.start(when, offset, length);
+    } else {
+      eventGain.gain.value = volume;
+      source.start(when);
+    }
 
-      // Fade out current iteration
-      this.fadeVolume(currentTrack.gainNode, currentTrack.volume, 0, fadeDuration);
+    events.sources.add(source);
 
-      // Schedule cleanup of old track after fade completes
-      setTimeout(() => {
-        if (currentTrack.source) {
-          try {
-            currentTrack.source.stop();
-          } catch (e) {
-            // Source might already be stopped
-          }
-        }
-      }, fadeDuration * 1000 + 100);
+    source.onended = () => {
+      events.sources.delete(source);
+      source.disconnect();
+      eventGain.disconnect();
+      eventPanner?.disconnect();
+
+      if (!events.stopped) {
+        this.scheduleEvent(track);
+        return;
+      }
 
-      // Remove from active tracks immediately so play() can create new one
-      this.activeTracks.delete(soundId);
+      // Stopped stream: remove it once its last event has finished
+      if (events.sources.size === 0) {
+        this.releaseEventStream(track);
+      }
+    };
+  }
 
-      // Fade in new iteration (using same fadeDuration for symmetry)
-      this.play(soundId, {
-        volume: currentTrack.volume,
-        loop: true,
-        fadeInDuration: fadeDuration, // ← Same duration as fade-out
-        category: currentTrack.category,
-      });
-    }, timeUntilCrossfade);
+  /**
+   * Disconnect a stopped event stream and drop it from the active tracks
+   * (unless a replacement track already owns the sound ID).
+   *
+   * @param track - Stopped event stream track
+   */
+  private releaseEventStream(track: AudioTrack): void {
+    track.gainNode.disconnect();
+    track.normalizationNode.disconnect();
+    track.pannerNode.disconnect();
+
+    if (this.activeTracks.get(track.soundId) === track) {
+      this.activeTracks.delete(track.soundId);
+    }
+  }
+
+  /**
+   * Update the timing/level parameters of a playing event stream.
+   * Takes effect from the next scheduled event.
+   *
+   * @param soundId - Sound identifier of the event stream
+   * @param schedule - New event schedule
+   *
+   * @example
+   * audioManager.setEventSchedule('thunder_light_far', { ratePerMinute: 3, volumeRange: [0.5, 1] });
+   */
+  setEventSchedule(soundId: string, schedule: EventSchedule): void {
+    const track = this.activeTracks.get(soundId);
+    if (!track?.events) return;
 
-    this.loopTimeouts.set(soundId, timeoutId);
+    track.events.schedule = schedule;
   }
 
   /**
@@ -376,31 +1152,53 @@ export class AudioManager {
    */
   stop(soundId: string, fadeOutDuration = 0): void {
     const track = this.activeTracks.get(soundId);
-    if (!track) return;
+    if (!track || !this.audioContext) return;
 
-    // Clear any scheduled loop
-    const loopTimeout = this.loopTimeouts.get(soundId);
-    if (loopTimeout) {
-      clearTimeout(loopTimeout);
-      this.loopTimeouts.delete(soundId);
-    }
+    const now = this.audioContext.currentTime;
 
     if (fadeOutDuration > 0) {
-      // Fade out, then stop
+      // Fade out, then stop on the audio clock; onended removes the track
       track.isFadingOut = true;
       this.fadeVolume(track.gainNode, track.volume, 0, fadeOutDuration);
-
-      setTimeout(() => {
-        track.source.stop();
-        this.activeTracks.delete(soundId);
-      }, fadeOutDuration * 1000);
+      this.stopSource(track, now + 0.01 + fadeOutDuration);
     } else {
       // Immediate stop
-      track.source.stop();
+      this.stopSource(track, now);
       this.activeTracks.delete(soundId);
     }
   }
 
+  /**
+   * Schedule a track's source to stop at an audio-clock time.
+   *
+   * @param track - Track to stop
+   * @param when - AudioContext time to stop at
+   */
+  private stopSource(track: AudioTrack, when: number): void {
+    const sources = track.events
+      ? Array.from(track.events.sources)
+      : track.source
+        ? [track.source]
+        : [];
+
+    if (track.events) {
+      track.events.stopped = true;
+
+      // Nothing queued or playing: nothing will fire onended to clean up
+      if (sources.length === 0) {
+        this.releaseEventStream(track);
+      }
+    }
+
+    sources.forEach((source) => {
+      try {
+        source.stop(when);
+      } catch (e) {
+        // Source might already be stopped
+      }
+    });
+  }
+
   /**
    * Stop all active sounds with optional fade-out.
    *
@@ -418,7 +1216,7 @@ export class AudioManager {
    * Set volume for a specific sound.
    *
    * @param soundId - Sound identifier
-   * @param volume - Target volume (0.0 to 1.0)
+   * @param volume - Target volume (0.0 to 2.0; above 1.0 boosts the track)
    * @param fadeDuration - Fade time in seconds (0 for immediate)
    *
    * @example
@@ -428,7 +1226,7 @@ export class AudioManager {
     const track = this.activeTracks.get(soundId);
     if (!track) return;
 
-    const clampedVolume = Math.max(0, Math.min(1, volume));
+    const clampedVolume = Math.max(0, Math.min(MAX_TRACK_VOLUME, volume));
 
     if (fadeDuration > 0) {
       this.fadeVolume(track.gainNode, track.volume, clampedVolume, fadeDuration);
@@ -439,6 +1237,238 @@ export class AudioManager {
     track.volume = clampedVolume;
   }
 
+  /**
+   * Set stereo position for a specific sound.
+   *
+   * @param soundId - Sound identifier
+   * @param pan - Target position (-1.0 = left, 0 = center, 1.0 = right)
+   * @param fadeDuration - Glide time in seconds (0 for immediate)
+   *
+   * @example
+   * audioManager.setPan('wind_forest_medium', -0.4, 5);  // Drift left over 5s
+   */
+  setPan(soundId: string, pan: number, fadeDuration = 0): void {
+    const track = this.activeTracks.get(soundId);
+    if (!track || !this.audioContext) return;
+
+    const param = track.pannerNode.pan;
+    const now = this.audioContext.currentTime;
+    const target = clampPan(pan);
+
+    param.cancelScheduledValues(now);
+
+    if (fadeDuration > 0) {
+      // Linear glide: pan crosses zero, so an exponential ramp can't be used
+      param.setValueAtTime(param.value, now);
+      param.linearRampToValueAtTime(target, now + fadeDuration);
+    } else {
+      param.setValueAtTime(target, now);
+    }
+  }
+
+  /**
+   * Set the effects applied to the whole mix.
+   *
+   * Filter changes glide over the fade; switching reverb spaces crossfades
+   * between them. Each space's impulse response is generated on first use.
+   *
+   * @param effects - Target effects (see getSoundEffects)
+   * @param fadeDuration - Transition time in seconds (0 for immediate)
+   *
+   * @example
+   * audioManager.setEffects(
+   *   { lowpassFrequency: 3500, highShelfGain: -6, reverb: { space: 'forest', mix: 0.3 } },
+   *   4
+   * );
+   */
+  setEffects(effects: SoundEffects, fadeDuration = 0): void {
+    if (!this.audioContext || !this.highShelfNode || !this.lowpassNode) return;
+
+    const now = this.audioContext.currentTime;
+    const end = now + Math.max(MIN_EFFECT_RAMP, fadeDuration);
+
+    // Frequency glides exponentially so it sounds even across octaves
+    rampParam(this.lowpassNode.frequency, effects.lowpassFrequency, now, end, true);
+    rampParam(this.highShelfNode.gain, effects.highShelfGain, now, end, false);
+
+    const space = effects.reverb?.space;
+    if (space && !this.reverbs.has(space)) {
+      this.createReverb(space);
+    }
+
+    this.reverbs.forEach(({ wetGain }, reverbSpace) => {
+      const mix = reverbSpace === space ? effects.reverb!.mix : 0;
+      rampParam(wetGain.gain, mix, now, end, false);
+    });
+
+    this.effects = effects;
+  }
+
+  /**
+   * Get the effects currently applied to the mix.
+   *
+   * @returns Current effects settings
+   */
+  getEffects(): SoundEffects {
+    return this.effects;
+  }
+
+  /**
+   * Create a reverb branch for a space (convolver → wet gain → master),
+   * starting silent.
+   *
+   * @param space - Reverb space
+   */
+  private createReverb(space: ReverbSpace): void {
+    if (!this.audioContext || !this.lowpassNode || !this.masterGainNode) return;
+
+    const convolver = this.audioContext.createConvolver();
+    convolver.buffer = createImpulseResponse(this.audioContext, space);
+
+    const wetGain = this.audioContext.createGain();
+    wetGain.gain.value = 0;
+
+    this.lowpassNode.connect(convolver);
+    convolver.connect(wetGain);
+    wetGain.connect(this.masterGainNode);
+
+    this.reverbs.set(space, { convolver, wetGain });
+  }
+
+  /**
+   * Render a soundscape offline and encode it as a 16-bit stereo WAV file.
+   *
+   * Layers play as they would through play(): same volumes, loudness
+   * normalization, panning, crossfaded loop buffers, fade-ins and event
+   * streams, through the current effects and the limiter at full master
+   * volume. The recording fades out at the end. Rendering runs in chunks of
+   * RENDER_CHUNK_SECONDS, so an hour-long file is never held as float samples.
+   *
+   * @param layers - Layers to render (e.g. AudioController.getCurrentSoundscape())
+   * @param options - Duration, format, progress and cancellation
+   * @returns WAV file
+   * @throws DOMException (AbortError) if `options.signal` is aborted
+   *
+   * @example
+   * const wav = await audioManager.renderToWav(layers, {
+   *   duration: 3600,
+   *   onProgress: (progress) => console.log(`${Math.round(progress * 100)}%`),
+   * });
+   */
+  async renderToWav(layers: SoundLayer[], options: OfflineRenderOptions): Promise<Blob> {
+    if (!this.audioContext) {
+      throw new Error('AudioManager not initialized. Call init() first.');
+    }
+
+    const {
+      duration,
+      sampleRate = DEFAULT_RENDER_SAMPLE_RATE,
+      fadeOutDuration = DEFAULT_RENDER_FADE_OUT,
+      onProgress,
+      signal,
+    } = options;
+
+    await this.loadSounds(layers.map((layer) => layer.soundId), 'normal');
+    signal?.throwIfAborted();
+
+    // Silent layers are skipped (exponential fades can't reach a 0 level),
+    // as are files that failed to load
+    const tracks = layers.flatMap((layer) => {
+      const buffer = this.audioBuffers.get(layer.soundId);
+      return buffer && layer.volume > 0
+        ? [this.createRenderTrack(layer, buffer, duration, fadeOutDuration)]
+        : [];
+    });
+    const effects = this.effects;
+
+    const totalFrames = Math.round(duration * sampleRate);
+    const chunkFrames = Math.round(RENDER_CHUNK_SECONDS * sampleRate);
+    const prerollFrames = Math.round(RENDER_PREROLL_SECONDS * sampleRate);
+    const parts: BlobPart[] = [encodeWavHeader(totalFrames, 2, sampleRate)];
+
+    for (let startFrame = 0; startFrame < totalFrames; startFrame += chunkFrames) {
+      const endFrame = Math.min(totalFrames, startFrame + chunkFrames);
+      const preroll = Math.min(startFrame, prerollFrames);
+
+      const rendered = await renderChunk(
+        tracks,
+        effects,
+        (startFrame - preroll) / sampleRate,
+        endFrame - startFrame + preroll,
+        sampleRate
+      );
+      parts.push(encodePcm16(rendered, preroll));
+
+      onProgress?.(endFrame / totalFrames);
+      signal?.throwIfAborted();
+    }
+
+    return new Blob(parts, { type: 'audio/wav' });
+  }
+
+  /**
+   * Lay out one layer on an export's timeline: its buffer, level,
+   * fade envelope and (for event layers) every event in the recording.
+   *
+   * @param layer - Layer to render
+   * @param buffer - Decoded audio for the layer
+   * @param duration - Length of the recording in seconds
+   * @param fadeOutDuration - Fade-out at the end of the recording in seconds
+   * @returns Export track
+   */
+  private createRenderTrack(
+    layer: SoundLayer,
+    buffer: AudioBuffer,
+    duration: number,
+    fadeOutDuration: number
+  ): RenderTrack {
+    const startTime = layer.startDelay ?? 0;
+    const fadeInDuration = layer.fadeInDuration ?? 0;
+
+    // Same curves as fadeVolume(): exponential from near-silence, and an
+    // exponential fade-out finished with a short linear ramp to 0
+    const envelope: EnvelopePoint[] =
+      fadeInDuration > 0
+        ? [
+            { time: startTime, level: FADE_EPSILON },
+            { time: startTime + fadeInDuration, level: 1, exponential: true },
+          ]
+        : [{ time: startTime, level: 1 }];
+
+    if (fadeOutDuration > 0) {
+      const fadeOutStart = Math.max(envelope[envelope.length - 1].time, duration - fadeOutDuration);
+      envelope.push(
+        { time: fadeOutStart, level: 1 },
+        { time: Math.max(fadeOutStart, duration - 0.05), level: FADE_EPSILON, exponential: true },
+        { time: duration, level: 0 }
+      );
+    }
+
+    let events: RenderEvent[] | undefined;
+    if (layer.event) {
+      events = [];
+      for (
+        let time = startTime + getEventInterval(layer.event);
+        time < duration;
+        time += getEventInterval(layer.event)
+      ) {
+        events.push(createRenderEvent(layer.event, buffer, time));
+      }
+    }
+
+    const loop = layer.loop && !layer.event;
+
+    return {
+      buffer: loop ? this.getLoopBuffer(layer.soundId, buffer, layer.loopPoints) : buffer,
+      loop,
+      startTime,
+      level: layer.volume * getNormalizationGain(layer.soundId),
+      pan: clampPan(layer.pan ?? 0),
+      envelope,
+      events,
+    };
+  }
+
   /**
    * Set master volume for all sounds.
    *
@@ -463,13 +1493,68 @@ export class AudioManager {
    * const isMuted = audioManager.toggleMute();
    */
   toggleMute(): boolean {
-    this.isMuted = !this.isMuted;
+    this.setMuted(!this.isMuted);
+    return this.isMuted;
+  }
+
+  /**
+   * Set mute state.
+   *
+   * @param muted - True to mute
+   *
+   * @example
+   * audioManager.setMuted(true);
+   */
+  setMuted(muted: boolean): void {
+    this.isMuted = muted;
 
     if (this.masterGainNode) {
       this.masterGainNode.gain.value = this.isMuted ? 0 : this.masterVolume;
     }
+  }
 
-    return this.isMuted;
+  /**
+   * Schedule the sleep fade: the whole mix fades to silence on the audio
+   * clock, independent of master volume and mute.
+   *
+   * Replaces any previously scheduled sleep fade.
+   *
+   * @param delay - Seconds from now until the fade starts
+   * @param fadeDuration - Length of the fade in seconds
+   *
+   * @example
+   * audioManager.scheduleSleepFade(25 * 60, 5 * 60);  // Silent in 30 minutes
+   */
+  scheduleSleepFade(delay: number, fadeDuration: number): void {
+    if (!this.audioContext || !this.sleepGainNode) return;
+
+    const gain = this.sleepGainNode.gain;
+    const now = this.audioContext.currentTime;
+    const start = now + Math.max(MIN_EFFECT_RAMP, delay);
+    const end = start + Math.max(MIN_EFFECT_RAMP, fadeDuration);
+
+    // Back to full level first, in case an earlier fade is under way
+    rampParam(gain, 1, now, now + MIN_EFFECT_RAMP, false);
+    gain.setValueAtTime(1, start);
+
+    // Exponential for an even-sounding fade, then a short linear ramp to true silence
+    gain.exponentialRampToValueAtTime(FADE_EPSILON, Math.max(start, end - 0.05));
+    gain.linearRampToValueAtTime(0, end);
+  }
+
+  /**
+   * Cancel the sleep fade and bring the mix back to full level.
+   *
+   * @param fadeDuration - Time to return to full level in seconds (0 for immediate)
+   *
+   * @example
+   * audioManager.cancelSleepFade(1);
+   */
+  cancelSleepFade(fadeDuration = 0): void {
+    if (!this.audioContext || !this.sleepGainNode) return;
+
+    const now = this.audioContext.currentTime;
+    rampParam(this.sleepGainNode.gain, 1, now, now + Math.max(MIN_EFFECT_RAMP, fadeDuration), false);
   }
 
   /**
@@ -578,10 +1663,6 @@ export class AudioManager {
     // Stop all tracks
     this.stopAll(0);
 
-    // Clear all timeouts
-    this.loopTimeouts.forEach((timeoutId) => clearTimeout(timeoutId));
-    this.loopTimeouts.clear();
-
     // Close audio context
     if (this.audioContext && this.audioContext.state !== 'closed') {
       this.audioContext.close();
@@ -590,8 +1671,19 @@ export class AudioManager {
     // Clear references
     this.audioContext = null;
     this.masterGainNode = null;
+    this.sleepGainNode = null;
+    this.effectsInputNode = null;
+    this.highShelfNode = null;
+    this.lowpassNode = null;
+    this.reverbs.clear();
+    this.effects = NEUTRAL_EFFECTS;
     this.activeTracks.clear();
     this.audioBuffers.clear();
+    this.loopBuffers.clear();
+    this.loadQueue = [];
+    this.pendingLoads.forEach((load) => load.resolve(null));
+    this.pendingLoads.clear();
+    this.loadListeners.clear();
     this.isInitialized = false;
     this.preloadComplete = false;
   }
@@ -123,7 +123,7 @@ export async function testAllBiomes(durationPerBiome = 5): Promise<void> {
   }
 
   const biomes: BiomeType[] = ['city', 'forest', 'field', 'beach', 'lake', 'ocean', 'desert'];
-  const times: TimeOfDay[] = ['day', 'evening', 'night'];
+  const times: TimeOfDay[] = ['dawn', 'day', 'dusk', 'evening', 'night'];
 
   console.log(`Testing all biomes (${durationPerBiome}s each)...`);
 
@@ -195,7 +195,7 @@ export async function testWeatherTransitions(
 }
 
 /**
- * Test time-of-day transitions (day → evening → night → day).
+ * Test time-of-day transitions (dawn → day → dusk → evening → night).
  *
  * @param biome - Biome to test in
  * @param durationPerTime - How long to stay in each time period (seconds)
@@ -211,7 +211,7 @@ export async function testTimeTransitions(
     await controller.preloadSounds();
   }
 
-  const times: TimeOfDay[] = ['day', 'evening', 'night'];
+  const times: TimeOfDay[] = ['dawn', 'day', 'dusk', 'evening', 'night'];
 
   console.log(`Testing time-of-day transitions in ${biome}...`);
 
@@ -249,12 +249,15 @@ export function createMockWeatherData(
   windSpeed = 15,
   localtime?: string
 ): WeatherData {
+  const time = localtime || new Date().toISOString();
+  const date = time.slice(0, 10);
+
   return {
     location: {
       name: 'Test Location',
       region: 'Test Region',
       country: 'Test Country',
-      localtime: localtime || new Date().toISOString(),
+      localtime: time,
     },
     current: {
       temp_f: 72,
@@ -270,6 +273,14 @@ export function createMockWeatherData(
       feelslike_f: 72,
       feelslike_c: 22,
     },
+    sun: {
+      sunrise: `${date}T06:00`,
+      sunset: `${date}T18:00`,
+    },
+    forecast: {
+      hourly: [],
+      daily: [],
+    },
     biome: {
       type: biome,
       coordinates: {
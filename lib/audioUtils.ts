@@ -5,7 +5,14 @@
  * weather intensity analysis, and volume curve generation.
  */
 
-import type { WeatherIntensity } from '@/types/audio';
+import type { WeatherIntensity, LoopPoints, SoundManifest } from '@/types/audio';
+import soundManifestJson from './data/soundManifest.json';
+
+/**
+ * Per-file loudness analysis and normalization gains.
+ * Regenerate with `npm run analyze-loudness` after adding or replacing audio.
+ */
+const SOUND_MANIFEST: SoundManifest = soundManifestJson;
 
 /**
  * Map of sound IDs to their file paths WITH extensions.
@@ -21,6 +28,10 @@ const SOUND_PATH_MAP: Record<string, string> = {
   crickets_far: 'animals/crickets_far.ogg',
   'crickets-summer_far': 'animals/crickets-summer_far.ogg',
   frogs_close: 'animals/frogs_close.ogg',
+  // The bird recordings again, for one-shot calls. Separate IDs keep a call
+  // stream from taking over a looping bird layer of the same file.
+  'bird-calls_far': 'animals/birds_far.ogg',
+  'bird-calls-forest_light_far': 'animals/birds-forest_light_far.mp3',
 
   // City
   'cars-passing_low_far': 'city/cars-passing_low_far.mp3',
@@ -61,6 +72,18 @@ const SOUND_PATH_MAP: Record<string, string> = {
   windchimes_close: 'other/windchimes_close.ogg',
 };
 
+/**
+ * Per-sound loop regions, for files that don't loop cleanly end-to-end.
+ * Sounds not listed loop the whole file with the default crossfade.
+ *
+ * Format: soundId → loop points in seconds (see LoopPoints)
+ */
+const SOUND_LOOP_POINTS: Record<string, LoopPoints> = {
+  // Struck/transient sounds: a long crossfade smears strikes into each other
+  'church-bells_medium_far': { crossfade: 2 },
+  windchimes_close: { crossfade: 2 },
+};
+
 /**
  * Gets the full audio file path for a sound ID.
  *
@@ -138,6 +161,38 @@ export function calculateFadeDuration(trackLengthSeconds: number): number {
   return Math.max(2, Math.min(30, baseFade));
 }
 
+/**
+ * Gets the registered loop points for a sound.
+ *
+ * @param soundId - Sound identifier
+ * @returns Loop points (empty if the sound loops end-to-end with the default crossfade)
+ *
+ * @example
+ * getLoopPoints("church-bells_medium_far")  // → { crossfade: 2 }
+ * getLoopPoints("rain_medium")              // → {}
+ */
+export function getLoopPoints(soundId: string): LoopPoints {
+  return SOUND_LOOP_POINTS[soundId] ?? {};
+}
+
+/**
+ * Gets the gain that normalizes a sound to the manifest's target loudness,
+ * so layer volumes mean the same thing regardless of how a file was mastered.
+ * The manifest is keyed by file name, so sound IDs sharing a file share its gain.
+ *
+ * @param soundId - Sound identifier
+ * @returns Linear gain (1 if the sound hasn't been analyzed)
+ *
+ * @example
+ * getNormalizationGain("cars-passing_low_far")  // → 7.943 (quiet recording, boosted)
+ * getNormalizationGain("fan_close")             // → 0.711 (hot recording, cut)
+ */
+export function getNormalizationGain(soundId: string): number {
+  const path = SOUND_PATH_MAP[soundId];
+  const fileName = path ? path.replace(/^.*\//, '').replace(/\.\w+$/, '') : soundId;
+  return SOUND_MANIFEST.sounds[fileName]?.gain ?? 1;
+}
+
 /**
  * Maps WMO weather code to weather intensity metrics.
  *
@@ -156,21 +211,22 @@ export function calculateFadeDuration(trackLengthSeconds: number): number {
  * @returns Object with intensity metrics for rain, thunder, snow, fog
  *
  * @example
- * mapWeatherToIntensity(61)  // Light rain → { rain: 0.3, thunder: 0, ... }
- * mapWeatherToIntensity(95)  // Thunderstorm → { rain: 0.7, thunder: 0.8, ... }
+ * mapWeatherToIntensity(61)  // Light rain → { rain: 0.4, thunder: 0, ... }
+ * mapWeatherToIntensity(73)  // Moderate snow → { rain: 0, snow: 0.6, ... }
+ * mapWeatherToIntensity(95)  // Thunderstorm → { rain: 0.8, thunder: 0.6, ... }
  */
 export function mapWeatherToIntensity(weatherCode: number): WeatherIntensity {
   const intensity: WeatherIntensity = {
     rain: 0,
     thunder: 0,
-    snow: false,
-    fog: false,
+    snow: 0,
+    fog: 0,
     hasPrecipitation: false,
   };
 
-  // Fog codes
+  // Fog codes (48 = depositing rime fog, the densest)
   if (weatherCode === 45 || weatherCode === 48) {
-    intensity.fog = true;
+    intensity.fog = weatherCode === 45 ? 0.7 : 1.0;
   }
 
   // Drizzle codes (51-57)
@@ -185,12 +241,15 @@ export function mapWeatherToIntensity(weatherCode: number): WeatherIntensity {
     intensity.hasPrecipitation = true;
   }
 
-  // Snow codes (71-77, 85-86)
-  if ((weatherCode >= 71 && weatherCode <= 77) || weatherCode === 85 || weatherCode === 86) {
-    intensity.snow = true;
+  // Snow codes (71-77, 85-86). Snow is near-silent; it muffles the soundscape
+  // (see getSoundEffects) rather than adding a rain layer.
+  if (weatherCode >= 71 && weatherCode <= 77) {
+    intensity.snow = weatherCode <= 71 || weatherCode === 77 ? 0.3 : weatherCode <= 73 ? 0.6 : 1.0;
+    intensity.hasPrecipitation = true;
+  }
+  if (weatherCode === 85 || weatherCode === 86) {
+    intensity.snow = weatherCode === 85 ? 0.5 : 1.0;
     intensity.hasPrecipitation = true;
-    // Snow sounds similar to light rain in ambient audio
-    intensity.rain = 0.3;
   }
 
   // Rain shower codes (80-82)
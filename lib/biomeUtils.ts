@@ -1,89 +1,197 @@
 import { BiomeType } from "./biomeDetector";
-import { BIOME_IMAGE_COUNTS, BIOME_FALLBACKS } from "./imageMapping";
+import { BIOME_IMAGE_MANIFEST, BIOME_FALLBACKS } from "./imageMapping";
+import type { BiomeImage } from "./imageMapping";
+import { mapWeatherToIntensity } from "./audioUtils";
+import { hashString, seededRandom } from "./random";
+import type { SunTimes, WeatherData } from "@/types/weather";
 
-export type TimeOfDay = "day" | "evening" | "night";
+export type TimeOfDay = "dawn" | "day" | "dusk" | "evening" | "night";
+
+const TIMES_OF_DAY: TimeOfDay[] = ["dawn", "day", "dusk", "evening", "night"];
 
 /**
- * Simple hash function for string input.
- * Converts a string to a stable numeric hash value.
- * 
- * @param str - String to hash
- * @returns 32-bit integer hash
+ * Coarse weather classification used to pick matching background imagery.
  */
-function simpleHash(str: string): number {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  return Math.abs(hash);
-}
+export type WeatherCondition = "clear" | "cloudy" | "rain" | "snow" | "fog" | "storm";
 
 /**
- * Seeded pseudo-random number generator (LCG algorithm).
- * Produces deterministic "random" numbers from a seed.
- * 
- * @param seed - Integer seed value
- * @returns Pseudo-random float between 0 and 1
+ * Half-width of the dawn/dusk windows centered on sunrise and sunset.
  */
-function seededRandom(seed: number): number {
-  // Linear Congruential Generator constants (same as glibc)
-  const a = 1103515245;
-  const c = 12345;
-  const m = 2 ** 31;
-  
-  const next = (a * seed + c) % m;
-  return next / m;
+const TWILIGHT_MINUTES = 45;
+
+/**
+ * How long "evening" lasts after sunset before it becomes night.
+ */
+const EVENING_HOURS_AFTER_SUNSET = 3;
+
+/**
+ * Adjacent slots to borrow imagery from when a slot has none, in order of preference.
+ * Dawn leans on day shots, dusk on sunset (evening) shots.
+ */
+const TIME_SLOT_FALLBACKS: Record<TimeOfDay, TimeOfDay[]> = {
+  dawn: ["day", "evening"],
+  day: ["evening", "dawn"],
+  dusk: ["evening", "day"],
+  evening: ["dusk", "day"],
+  night: ["evening", "day"],
+};
+
+/**
+ * Classifies time of day using fixed hour bands.
+ * Used when sunrise/sunset data is unavailable (or degenerate, e.g. polar day).
+ */
+function getTimeOfDayFromHour(date: Date): TimeOfDay {
+  const hour = date.getHours();
+
+  if (hour >= 5 && hour < 7) {
+    return "dawn";
+  } else if (hour >= 7 && hour < 17) {
+    return "day";
+  } else if (hour >= 17 && hour < 19) {
+    return "dusk";
+  } else if (hour >= 19 && hour < 22) {
+    return "evening";
+  } else {
+    return "night";
+  }
 }
 
 /**
- * Extracts time of day from ISO timestamp.
+ * Extracts time of day from ISO timestamp, based on the sun's position.
+ *
+ * Time periods (when sunrise/sunset are provided):
+ * - Dawn: 45 minutes either side of sunrise
+ * - Day: sunrise → sunset (outside dawn/dusk)
+ * - Dusk: 45 minutes either side of sunset
+ * - Evening: end of dusk → 3 hours after sunset
+ * - Night: everything else
  *
- * Time periods:
- * - Day: 6:00 - 17:59 (6am - 5:59pm)
- * - Evening: 18:00 - 21:59 (6pm - 9:59pm)
- * - Night: 22:00 - 5:59 (10pm - 5:59am)
+ * Without sun times, falls back to fixed hour bands:
+ * - Dawn: 5:00 - 6:59
+ * - Day: 7:00 - 16:59
+ * - Dusk: 17:00 - 18:59
+ * - Evening: 19:00 - 21:59
+ * - Night: 22:00 - 4:59
+ *
+ * All timestamps must be in the location's local time (as returned by Open-Meteo
+ * with `timezone=auto`), so they compare consistently regardless of browser timezone.
  *
  * @param localtime - ISO 8601 timestamp (e.g., "2025-10-31T14:30:00")
+ * @param sun - Optional sunrise/sunset for the same local date
  * @returns Time of day classification
  *
  * @example
- * getTimeOfDay("2025-10-31T14:30:00") // "day"
+ * getTimeOfDay("2025-06-21T23:00", { sunrise: "2025-06-21T02:55", sunset: "2025-06-22T00:03" }) // "day" (Reykjavik)
+ * getTimeOfDay("2025-10-31T06:15:00") // "dawn"
  * getTimeOfDay("2025-10-31T19:45:00") // "evening"
  * getTimeOfDay("2025-10-31T23:00:00") // "night"
  */
-export function getTimeOfDay(localtime: string): TimeOfDay {
+export function getTimeOfDay(localtime: string, sun?: SunTimes): TimeOfDay {
   const date = new Date(localtime);
-  const hour = date.getHours();
 
-  if (hour >= 6 && hour < 18) {
+  if (!sun) {
+    return getTimeOfDayFromHour(date);
+  }
+
+  const time = date.getTime();
+  const sunrise = new Date(sun.sunrise).getTime();
+  const sunset = new Date(sun.sunset).getTime();
+
+  if (Number.isNaN(time) || Number.isNaN(sunrise) || Number.isNaN(sunset) || sunset <= sunrise) {
+    return getTimeOfDayFromHour(date);
+  }
+
+  const twilight = TWILIGHT_MINUTES * 60 * 1000;
+
+  if (Math.abs(time - sunrise) < twilight) {
+    return "dawn";
+  }
+
+  if (Math.abs(time - sunset) < twilight) {
+    return "dusk";
+  }
+
+  if (time >= sunrise && time < sunset) {
     return "day";
-  } else if (hour >= 18 && hour < 22) {
+  }
+
+  if (time >= sunset && time < sunset + EVENING_HOURS_AFTER_SUNSET * 60 * 60 * 1000) {
     return "evening";
-  } else {
-    return "night";
   }
+
+  return "night";
+}
+
+/**
+ * Classifies a WMO weather code into a background weather condition.
+ *
+ * @param weatherCode - WMO weather code (0-99)
+ * @returns Weather condition for image selection
+ *
+ * @example
+ * getWeatherCondition(0)  // "clear"
+ * getWeatherCondition(63) // "rain"
+ * getWeatherCondition(95) // "storm"
+ */
+export function getWeatherCondition(weatherCode: number): WeatherCondition {
+  const intensity = mapWeatherToIntensity(weatherCode);
+
+  if (intensity.thunder > 0) return "storm";
+  if (intensity.snow > 0) return "snow";
+  if (intensity.rain > 0) return "rain";
+  if (intensity.fog > 0) return "fog";
+  if (weatherCode === 2 || weatherCode === 3) return "cloudy";
+  return "clear";
+}
+
+function matchesWeather(image: BiomeImage, weather: WeatherCondition): boolean {
+  return image.tags?.weather?.includes(weather) ?? false;
+}
+
+function isGenericImage(image: BiomeImage): boolean {
+  return !image.tags?.weather?.length;
 }
 
 function hasImagesForBiome(biome: BiomeType): boolean {
-  const counts = BIOME_IMAGE_COUNTS[biome];
-  if (!counts) return false;
-  return counts.day > 0 || counts.evening > 0 || counts.night > 0;
+  const images = BIOME_IMAGE_MANIFEST[biome];
+  if (!images) return false;
+  return TIMES_OF_DAY.some((slot) => images[slot].length > 0);
+}
+
+function hasImagesForWeather(biome: BiomeType, weather: WeatherCondition): boolean {
+  const images = BIOME_IMAGE_MANIFEST[biome];
+  if (!images) return false;
+  return TIMES_OF_DAY.some((slot) =>
+    images[slot].some((image) => matchesWeather(image, weather))
+  );
 }
 
 /**
  * Gets the effective biome for image selection, handling fallbacks.
  *
+ * When a weather condition is given and the biome has no imagery for it,
+ * the fallback biome is preferred if it does (e.g. a stormy ocean borrows
+ * stormy beach shots rather than showing calm water).
+ *
  * @param biome - Original biome type from detector
+ * @param weather - Optional weather condition
  * @returns Biome type to use for image selection
  */
-function getEffectiveBiome(biome: BiomeType): BiomeType {
+function getEffectiveBiome(biome: BiomeType, weather?: WeatherCondition): BiomeType {
+  const fallback = BIOME_FALLBACKS[biome];
+
   if (hasImagesForBiome(biome)) {
+    if (
+      weather &&
+      fallback &&
+      !hasImagesForWeather(biome, weather) &&
+      hasImagesForWeather(fallback, weather)
+    ) {
+      return fallback;
+    }
     return biome;
   }
 
-  const fallback = BIOME_FALLBACKS[biome];
   if (fallback && hasImagesForBiome(fallback)) {
     return fallback;
   }
@@ -94,56 +202,91 @@ function getEffectiveBiome(biome: BiomeType): BiomeType {
 /**
  * Gets the effective time of day for image selection, handling missing images.
  *
+ * If the requested slot is empty, falls back to adjacent slots (see
+ * TIME_SLOT_FALLBACKS) — preferring whichever of those has imagery for the
+ * requested weather.
+ *
  * @param biome - Effective biome (after fallback resolution)
  * @param timeOfDay - Requested time of day
+ * @param weather - Optional weather condition
  * @returns Time of day to use for image selection
  */
 function getEffectiveTimeOfDay(
   biome: BiomeType,
-  timeOfDay: TimeOfDay
+  timeOfDay: TimeOfDay,
+  weather?: WeatherCondition
 ): TimeOfDay {
-  const counts = BIOME_IMAGE_COUNTS[biome];
+  const images = BIOME_IMAGE_MANIFEST[biome];
 
-  // If requested time has no images, fall back to evening, then day
-  if (counts[timeOfDay] === 0) {
-    if (counts.evening > 0) {
-      return "evening";
+  if (images[timeOfDay].length > 0) {
+    return timeOfDay;
+  }
+
+  const fallbacks = TIME_SLOT_FALLBACKS[timeOfDay];
+
+  if (weather) {
+    const weatherMatch = fallbacks.find((slot) =>
+      images[slot].some((image) => matchesWeather(image, weather))
+    );
+    if (weatherMatch) {
+      return weatherMatch;
     }
-    return "day";
   }
 
-  return timeOfDay;
+  const adjacent = fallbacks.find((slot) => images[slot].length > 0);
+  if (adjacent) {
+    return adjacent;
+  }
+
+  // Last resort: any slot with images
+  return TIMES_OF_DAY.find((slot) => images[slot].length > 0) ?? "day";
+}
+
+/**
+ * Narrows a slot's images by weather.
+ *
+ * Fallback chain: exact weather match → generic (untagged) images → whole slot.
+ */
+function selectImagesForWeather(images: BiomeImage[], weather?: WeatherCondition): BiomeImage[] {
+  if (weather) {
+    const exact = images.filter((image) => matchesWeather(image, weather));
+    if (exact.length > 0) {
+      return exact;
+    }
+  }
+
+  const generic = images.filter(isGenericImage);
+  return generic.length > 0 ? generic : images;
 }
 
 /**
  * Gets available image paths for a specific biome and time of day.
+ * Paths come from the generated image manifest, so only files that
+ * actually exist on disk are returned.
  *
  * @param biome - Biome type
  * @param timeOfDay - Time of day
+ * @param weather - Optional weather condition (exact matches preferred)
  * @returns Array of image paths
  *
  * @example
  * getAvailableImages("forest", "evening")
  * // Returns: [
- * //   "/images/backgrounds/forest/forest-evening-1.jpg",
  * //   "/images/backgrounds/forest/forest-evening-2.jpg",
+ * //   "/images/backgrounds/forest/forest-evening-3.jpg",
  * //   ...
  * // ]
  */
-export function getAvailableImages(biome: BiomeType, timeOfDay: TimeOfDay): string[] {
-  const effectiveBiome = getEffectiveBiome(biome);
-  const effectiveTime = getEffectiveTimeOfDay(effectiveBiome, timeOfDay);
-
-  const count = BIOME_IMAGE_COUNTS[effectiveBiome][effectiveTime];
-  const images: string[] = [];
-
-  for (let i = 1; i <= count; i++) {
-    images.push(
-      `/images/backgrounds/${effectiveBiome}/${effectiveBiome}-${effectiveTime}-${i}.jpg`
-    );
-  }
+export function getAvailableImages(
+  biome: BiomeType,
+  timeOfDay: TimeOfDay,
+  weather?: WeatherCondition
+): string[] {
+  const effectiveBiome = getEffectiveBiome(biome, weather);
+  const effectiveTime = getEffectiveTimeOfDay(effectiveBiome, timeOfDay, weather);
+  const slotImages = BIOME_IMAGE_MANIFEST[effectiveBiome][effectiveTime];
 
-  return images;
+  return selectImagesForWeather(slotImages, weather).map((image) => image.path);
 }
 
 /**
@@ -157,22 +300,24 @@ export function getAvailableImages(biome: BiomeType, timeOfDay: TimeOfDay): stri
  * @param timeOfDay - Time of day classification
  * @param lat - Latitude (optional, for deterministic selection)
  * @param lon - Longitude (optional, for deterministic selection)
+ * @param weather - Weather condition (optional, selects matching variants when available)
  * @returns Deterministic image path
  *
  * @example
  * getBiomeImagePath("forest", "evening", 40.7128, -74.0060)
  * // Returns: "/images/backgrounds/forest/forest-evening-3.jpg" (always the same for NYC)
  *
- * getBiomeImagePath("ocean", "day")
- * // Returns: "/images/backgrounds/beach/beach-day-2.jpg" (fallback to beach)
+ * getBiomeImagePath("city", "night", 47.61, -122.33, "rain")
+ * // Returns: "/images/backgrounds/city/city-night-rain-1.jpg" if tagged, else a generic night shot
  */
 export function getBiomeImagePath(
   biome: BiomeType, 
   timeOfDay: TimeOfDay,
   lat?: number,
-  lon?: number
+  lon?: number,
+  weather?: WeatherCondition
 ): string {
-  const availableImages = getAvailableImages(biome, timeOfDay);
+  const availableImages = getAvailableImages(biome, timeOfDay, weather);
 
   // If no location provided, fall back to first image (stable default)
   if (lat === undefined || lon === undefined) {
@@ -186,13 +331,34 @@ export function getBiomeImagePath(
   const seedString = `${roundedLat},${roundedLon},${biome},${timeOfDay}`;
   
   // Generate hash and use seeded random to select image
-  const hash = simpleHash(seedString);
+  const hash = hashString(seedString);
   const pseudoRandom = seededRandom(hash);
   const index = Math.floor(pseudoRandom * availableImages.length);
   
   return availableImages[index];
 }
 
+/**
+ * Gets the background image for a weather report: the biome's image for the
+ * local time of day and weather, picked deterministically by location.
+ *
+ * @param weatherData - Weather and biome data for a location
+ * @returns Image path
+ *
+ * @example
+ * getWeatherImagePath(weatherData)
+ * // Returns: "/images/backgrounds/city/city-night-rain-1.jpg" (rainy Seattle night)
+ */
+export function getWeatherImagePath(weatherData: WeatherData): string {
+  return getBiomeImagePath(
+    weatherData.biome.type,
+    getTimeOfDay(weatherData.location.localtime, weatherData.sun),
+    weatherData.biome.coordinates.lat,
+    weatherData.biome.coordinates.lon,
+    getWeatherCondition(weatherData.current.condition.code)
+  );
+}
+
 /**
  * Formats biome name for display.
  *
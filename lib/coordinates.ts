@@ -0,0 +1,80 @@
+/**
+ * Latitude/longitude parsing and formatting.
+ *
+ * Shared by the search bar (client) and the weather route (server) so both
+ * accept exactly the same coordinate input.
+ */
+
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+// "40.71, -74.00" / "40.71 -74.00" / "40.71°N, 74.00°W" / "40.71 N 74.00 W"
+const COORDINATE_PATTERN =
+  /^\s*([+-]?\d{1,2}(?:\.\d+)?)\s*°?\s*([NS])?\s*[,\s]\s*([+-]?\d{1,3}(?:\.\d+)?)\s*°?\s*([EW])?\s*$/i;
+
+/**
+ * Checks that a latitude/longitude pair is within valid ranges.
+ *
+ * @param lat - Latitude (-90 to 90)
+ * @param lon - Longitude (-180 to 180)
+ * @returns True if both values are finite and in range
+ */
+export function isValidCoordinates(lat: number, lon: number): boolean {
+  return (
+    Number.isFinite(lat) &&
+    Number.isFinite(lon) &&
+    lat >= -90 &&
+    lat <= 90 &&
+    lon >= -180 &&
+    lon <= 180
+  );
+}
+
+/**
+ * Parses free-text coordinate input.
+ *
+ * Accepts signed decimal degrees or hemisphere letters (a hemisphere letter
+ * overrides the sign).
+ *
+ * @param input - User input
+ * @returns Parsed coordinates, or null if the input isn't a valid coordinate pair
+ *
+ * @example
+ * parseCoordinates("40.71, -74.00")     // { lat: 40.71, lon: -74 }
+ * parseCoordinates("33.87°S, 151.21°E") // { lat: -33.87, lon: 151.21 }
+ * parseCoordinates("Paris")             // null
+ */
+export function parseCoordinates(input: string): Coordinates | null {
+  const match = input.match(COORDINATE_PATTERN);
+  if (!match) return null;
+
+  let lat = parseFloat(match[1]);
+  let lon = parseFloat(match[3]);
+
+  if (match[2]) {
+    lat = Math.abs(lat) * (match[2].toUpperCase() === "S" ? -1 : 1);
+  }
+  if (match[4]) {
+    lon = Math.abs(lon) * (match[4].toUpperCase() === "W" ? -1 : 1);
+  }
+
+  return isValidCoordinates(lat, lon) ? { lat, lon } : null;
+}
+
+/**
+ * Formats coordinates as a human-readable label.
+ *
+ * @param lat - Latitude
+ * @param lon - Longitude
+ * @returns Label with hemisphere letters, 2 decimal places
+ *
+ * @example
+ * formatCoordinates(40.7128, -74.006) // "40.71°N, 74.01°W"
+ */
+export function formatCoordinates(lat: number, lon: number): string {
+  const latLabel = `${Math.abs(lat).toFixed(2)}°${lat >= 0 ? "N" : "S"}`;
+  const lonLabel = `${Math.abs(lon).toFixed(2)}°${lon >= 0 ? "E" : "W"}`;
+  return `${latLabel}, ${lonLabel}`;
+}
@@ -0,0 +1,185 @@
+/**
+ * Server-side helpers for the Open-Meteo Geocoding API, plus reverse
+ * geocoding via Nominatim (Open-Meteo has no reverse lookup).
+ *
+ * Shared by the /api/geocode and /api/weather routes so both resolve
+ * places the same way.
+ */
+
+import type {
+  GeocodingResponse,
+  GeocodingResult,
+  PlaceName,
+  ReverseGeocodingResponse,
+} from "@/types/weather";
+import { matchesQualifiers } from "./locationQuery";
+import type { LocationQuery } from "./locationQuery";
+
+const GEOCODING_BASE_URL = "https://geocoding-api.open-meteo.com/v1";
+const REVERSE_GEOCODING_URL = "https://nominatim.openstreetmap.org/reverse";
+
+// Qualified searches are filtered locally, so fetch enough candidates to filter
+const QUALIFIED_SEARCH_COUNT = 50;
+
+// Nominatim's usage policy requires an identifying User-Agent
+const REVERSE_GEOCODING_USER_AGENT = "Skypin/0.1 (ambient weather soundscapes)";
+
+// Give up on the (optional) reverse lookup quickly so weather isn't held up
+const REVERSE_GEOCODING_TIMEOUT_MS = 3000;
+
+/**
+ * Error raised when the upstream geocoding service fails.
+ * Carries the HTTP status to forward to the client.
+ */
+export class GeocodingError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "GeocodingError";
+  }
+}
+
+/**
+ * Searches for places matching a parsed location query.
+ *
+ * A country code is passed to Open-Meteo as its `countryCode` filter, and a
+ * US state code searches the US. Codes that could be either ("Paris, IN")
+ * search both, country results first. Region/country name qualifiers and
+ * the state itself are applied to the results here.
+ *
+ * @param query - Parsed query (see parseLocationQuery)
+ * @param count - Maximum number of results (Open-Meteo allows up to 100)
+ * @returns Matching places, best match first (empty if none)
+ * @throws GeocodingError if the upstream request fails
+ *
+ * @example
+ * await searchLocations(parseLocationQuery("Portland")!, 5)
+ * // → [{ name: "Portland", admin1: "Oregon", ... }, { name: "Portland", admin1: "Maine", ... }, ...]
+ * await searchLocations(parseLocationQuery("Portland, Maine")!, 5)
+ * // → [{ name: "Portland", admin1: "Maine", ... }]
+ */
+export async function searchLocations(
+  query: LocationQuery,
+  count: number
+): Promise<GeocodingResult[]> {
+  // A state is checked here (the US search covers every state)
+  const hasQualifiers = query.qualifiers.length > 0 || Boolean(query.stateCode);
+  const fetchCount = hasQualifiers ? Math.max(count, QUALIFIED_SEARCH_COUNT) : count;
+
+  const countryFilters = [query.countryCode, query.stateCode && "US"].filter(Boolean);
+  const searches = await Promise.all(
+    (countryFilters.length > 0 ? countryFilters : [undefined]).map((countryCode) =>
+      fetchSearchResults(query.name, fetchCount, countryCode)
+    )
+  );
+
+  const results = searches.flat();
+
+  if (!hasQualifiers) return results;
+
+  return results.filter((result) => matchesQualifiers(result, query)).slice(0, count);
+}
+
+/**
+ * One Open-Meteo search request.
+ *
+ * @param name - Place name or postcode
+ * @param count - Maximum number of results
+ * @param countryCode - Optional ISO 3166-1 alpha-2 filter
+ * @returns Results, best match first
+ * @throws GeocodingError if the upstream request fails
+ */
+async function fetchSearchResults(
+  name: string,
+  count: number,
+  countryCode?: string
+): Promise<GeocodingResult[]> {
+  let url = `${GEOCODING_BASE_URL}/search?name=${encodeURIComponent(
+    name
+  )}&count=${count}&language=en&format=json`;
+
+  if (countryCode) {
+    url += `&countryCode=${countryCode}`;
+  }
+
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new GeocodingError("Failed to geocode location", response.status);
+  }
+
+  const data: GeocodingResponse = await response.json();
+  return data.results ?? [];
+}
+
+/**
+ * Looks up a single place by its Open-Meteo (GeoNames) id.
+ *
+ * @param id - Location id from a previous search result
+ * @returns The place, or null if the id is unknown
+ * @throws GeocodingError if the upstream request fails
+ */
+export async function getLocationById(id: number): Promise<GeocodingResult | null> {
+  const response = await fetch(`${GEOCODING_BASE_URL}/get?id=${id}`);
+
+  if (response.status === 400 || response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new GeocodingError("Failed to look up location", response.status);
+  }
+
+  const result: GeocodingResult = await response.json();
+  return result?.id ? result : null;
+}
+
+/**
+ * Looks up a display name for coordinates.
+ *
+ * Best-effort: returns null on any failure (timeout, no nearby place, upstream
+ * error) so callers can fall back to a coordinate label.
+ *
+ * @param lat - Latitude
+ * @param lon - Longitude
+ * @returns Place name, or null if none could be determined
+ *
+ * @example
+ * await reverseGeocode(40.71, -74.0)
+ * // → { name: "New York", region: "New York", country: "United States" }
+ */
+export async function reverseGeocode(lat: number, lon: number): Promise<PlaceName | null> {
+  const url = `${REVERSE_GEOCODING_URL}?format=jsonv2&lat=${lat}&lon=${lon}&zoom=10&accept-language=en`;
+
+  try {
+    const response = await fetch(url, {
+      headers: { "User-Agent": REVERSE_GEOCODING_USER_AGENT },
+      signal: AbortSignal.timeout(REVERSE_GEOCODING_TIMEOUT_MS),
+    });
+
+    if (!response.ok) return null;
+
+    const data: ReverseGeocodingResponse = await response.json();
+    if (data.error || !data.address) return null;
+
+    const { address } = data;
+    const name =
+      address.city ??
+      address.town ??
+      address.village ??
+      address.hamlet ??
+      address.municipality ??
+      address.county ??
+      data.name;
+
+    if (!name) return null;
+
+    return {
+      name,
+      region: address.state ?? address.region ?? "",
+      country: address.country ?? "",
+    };
+  } catch (error) {
+    console.warn("Reverse geocoding failed:", error);
+    return null;
+  }
+}
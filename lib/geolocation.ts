@@ -0,0 +1,74 @@
+/**
+ * Promise wrapper around the browser Geolocation API with user-facing
+ * error messages.
+ */
+
+import type { Coordinates } from "./coordinates";
+
+export type GeolocationFailure = "unsupported" | "denied" | "unavailable" | "timeout";
+
+// Give up waiting for a fix after this long
+const GEOLOCATION_TIMEOUT_MS = 10000;
+
+// A cached fix is fine; weather doesn't change over a few minutes or a few hundred meters
+const MAX_POSITION_AGE_MS = 10 * 60 * 1000;
+
+const FAILURE_MESSAGES: Record<GeolocationFailure, string> = {
+  unsupported: "Your browser doesn't support location access. Search for a place instead.",
+  denied:
+    "Location access was denied. Allow it in your browser settings, or search for a place instead.",
+  unavailable: "Your location couldn't be determined. Try again or search for a place instead.",
+  timeout: "Finding your location took too long. Try again or search for a place instead.",
+};
+
+/**
+ * Error raised when the browser can't provide a position.
+ * The message is suitable for showing to the user as-is.
+ */
+export class GeolocationError extends Error {
+  constructor(public reason: GeolocationFailure) {
+    super(FAILURE_MESSAGES[reason]);
+    this.name = "GeolocationError";
+  }
+}
+
+function failureFromPositionError(error: GeolocationPositionError): GeolocationFailure {
+  switch (error.code) {
+    case error.PERMISSION_DENIED:
+      return "denied";
+    case error.TIMEOUT:
+      return "timeout";
+    default:
+      return "unavailable";
+  }
+}
+
+/**
+ * Requests the device's current position.
+ * Triggers the browser permission prompt on first use.
+ *
+ * @returns Current coordinates
+ * @throws GeolocationError if geolocation is unsupported, denied, unavailable or times out
+ *
+ * @example
+ * const { lat, lon } = await getCurrentPosition();
+ */
+export function getCurrentPosition(): Promise<Coordinates> {
+  return new Promise((resolve, reject) => {
+    if (typeof navigator === "undefined" || !navigator.geolocation) {
+      reject(new GeolocationError("unsupported"));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({ lat: position.coords.latitude, lon: position.coords.longitude }),
+      (error) => reject(new GeolocationError(failureFromPositionError(error))),
+      {
+        enableHighAccuracy: false,
+        timeout: GEOLOCATION_TIMEOUT_MS,
+        maximumAge: MAX_POSITION_AGE_MS,
+      }
+    );
+  });
+}
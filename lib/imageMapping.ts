@@ -1,34 +1,66 @@
 import type { BiomeType } from "./biomeDetector";
-import countsJson from "./data/biomeImageCounts.json";
+import type { WeatherCondition } from "./biomeUtils";
+import manifestJson from "./data/biomeImageManifest.json";
 
-type TimeSlot = "day" | "evening" | "night";
+export type TimeSlot = "dawn" | "day" | "dusk" | "evening" | "night";
 
-type BiomeImageCounts = Record<BiomeType, Record<TimeSlot, number>>;
+export type ImageSeason = "spring" | "summer" | "autumn" | "winter";
+
+/**
+ * Optional descriptive tags for a background image.
+ * Weather comes from the filename (e.g. city-night-rain-2.jpg) and/or the
+ * `tags.json` sidecar in each biome folder; season only from the sidecar.
+ * Images without weather tags are generic and used for any weather.
+ */
+export interface BiomeImageTags {
+  weather?: WeatherCondition[];
+  season?: ImageSeason[];
+}
+
+/**
+ * A single background image as recorded by `npm run build-image-counts`.
+ */
+export interface BiomeImage {
+  /** Public URL path (e.g., "/images/backgrounds/forest/forest-evening-3.jpg") */
+  path: string;
+  width: number;
+  height: number;
+  /** Lowercase file extension without the dot */
+  extension: string;
+  tags?: BiomeImageTags;
+}
+
+export type BiomeImageManifest = Record<BiomeType, Record<TimeSlot, BiomeImage[]>>;
 
 const BIOME_TYPES: BiomeType[] = ["ocean", "lake", "beach", "desert", "field", "forest", "city"];
-const EMPTY_COUNTS: Record<TimeSlot, number> = { day: 0, evening: 0, night: 0 };
+const EMPTY_SLOTS: Partial<Record<TimeSlot, BiomeImage[]>> = {};
 
-const normalizedCounts = BIOME_TYPES.reduce<BiomeImageCounts>((acc, biome) => {
-  const counts =
-    (countsJson as Record<string, Partial<Record<TimeSlot, number>>>)[biome] ?? EMPTY_COUNTS;
+const normalizedManifest = BIOME_TYPES.reduce<BiomeImageManifest>((acc, biome) => {
+  const slots =
+    (manifestJson as Partial<Record<string, Partial<Record<TimeSlot, BiomeImage[]>>>>)[biome] ??
+    EMPTY_SLOTS;
 
   acc[biome] = {
-    day: counts.day ?? 0,
-    evening: counts.evening ?? 0,
-    night: counts.night ?? 0,
+    dawn: slots.dawn ?? [],
+    day: slots.day ?? [],
+    dusk: slots.dusk ?? [],
+    evening: slots.evening ?? [],
+    night: slots.night ?? [],
   };
 
   return acc;
-}, {} as BiomeImageCounts);
+}, {} as BiomeImageManifest);
 
 /**
- * Image counts for each biome and time-of-day combination.
- * Used to randomly select from available background images.
+ * Manifest of every background image on disk, grouped by biome and time of day.
+ * Image paths are taken verbatim from the filesystem, so gaps in numbering
+ * (e.g. no beach-evening-3.jpg) never produce 404s.
  *
- * File naming pattern: /images/backgrounds/{biome}/{biome}-{timeOfDay}-{number}.jpg
- * Example: /images/backgrounds/forest/forest-evening-3.jpg
+ * File naming pattern: /images/backgrounds/{biome}/{biome}-{timeOfDay}[-{weather}]-{number}.{ext}
+ * Example: /images/backgrounds/city/city-night-storm-1.jpg
+ * Regenerate with: npm run build-image-counts
  */
-export const BIOME_IMAGE_COUNTS = normalizedCounts;
+export const BIOME_IMAGE_MANIFEST = normalizedManifest;
 
 /**
  * Fallback mapping for biomes without dedicated images
@@ -0,0 +1,123 @@
+/**
+ * Synthesized impulse responses for the convolution reverb.
+ *
+ * Each reverb space is generated from shaped noise instead of shipping
+ * recorded impulse response files: an exponentially decaying noise tail
+ * that darkens over time (high frequencies die faster, as in real spaces),
+ * plus optional discrete early reflections. Generation is seeded, so a space
+ * always sounds the same.
+ */
+
+import type { ReverbSpace } from '@/types/audio';
+import { createSeededRandom, hashString } from './random';
+
+/**
+ * Shape of a synthesized reverb tail.
+ */
+interface ReverbSpaceParams {
+  /** Length of the generated response in seconds */
+  duration: number;
+
+  /** Time for the tail to decay by 60dB, in seconds */
+  decayTime: number;
+
+  /** Silence before the tail starts, in seconds */
+  preDelay: number;
+
+  /** Low-pass cutoff (Hz) at the start and end of the tail */
+  brightness: [start: number, end: number];
+
+  /** Discrete echoes as [delay in seconds, gain] */
+  reflections: [number, number][];
+}
+
+const REVERB_SPACES: Record<ReverbSpace, ReverbSpaceParams> = {
+  // Dense, diffuse scattering off trunks and leaves; foliage soaks up the highs
+  forest: {
+    duration: 2.4,
+    decayTime: 1.8,
+    preDelay: 0.008,
+    brightness: [5000, 1200],
+    reflections: [],
+  },
+  // Street canyon: bright slap-back echoes between facades, then a long tail
+  city: {
+    duration: 3,
+    decayTime: 2.4,
+    preDelay: 0.015,
+    brightness: [9000, 2500],
+    reflections: [
+      [0.043, 0.5],
+      [0.079, 0.35],
+      [0.127, 0.3],
+      [0.191, 0.2],
+      [0.263, 0.12],
+    ],
+  },
+  // Open ground: a faint, short tail and a single distant reflection
+  open: {
+    duration: 1.2,
+    decayTime: 0.7,
+    preDelay: 0.03,
+    brightness: [6000, 2000],
+    reflections: [[0.18, 0.12]],
+  },
+};
+
+/**
+ * Offset between channels' early reflections, so echoes arrive from around
+ * the listener rather than dead center.
+ */
+const STEREO_REFLECTION_SPREAD = 0.004;
+
+/**
+ * Generates the impulse response for a reverb space.
+ *
+ * @param context - Audio context the buffer is used in (online or offline)
+ * @param space - Reverb space
+ * @returns Stereo impulse response for a ConvolverNode
+ *
+ * @example
+ * const convolver = context.createConvolver();
+ * convolver.buffer = createImpulseResponse(context, 'forest');
+ */
+export function createImpulseResponse(context: BaseAudioContext, space: ReverbSpace): AudioBuffer {
+  const params = REVERB_SPACES[space];
+  const sampleRate = context.sampleRate;
+  const length = Math.ceil(params.duration * sampleRate);
+  const buffer = context.createBuffer(2, length, sampleRate);
+  const preDelaySamples = Math.floor(params.preDelay * sampleRate);
+  const [startBrightness, endBrightness] = params.brightness;
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    // Separate noise per channel decorrelates left and right for width
+    const random = createSeededRandom(hashString(`${space}:${channel}`));
+    let filtered = 0;
+
+    for (let i = preDelaySamples; i < length; i++) {
+      const t = (i - preDelaySamples) / sampleRate;
+
+      // -60dB after decayTime
+      const envelope = 10 ** ((-3 * t) / params.decayTime);
+
+      // One-pole low-pass whose cutoff slides down over the tail
+      const cutoff = startBrightness * (endBrightness / startBrightness) ** (t / params.duration);
+      const coefficient = Math.exp((-2 * Math.PI * cutoff) / sampleRate);
+      filtered = (1 - coefficient) * (random() * 2 - 1) + coefficient * filtered;
+
+      data[i] = filtered * envelope;
+    }
+
+    params.reflections.forEach(([delay, gain], index) => {
+      // Alternate which side hears each echo first
+      const side = (index + channel) % 2 === 0 ? 1 : -1;
+      const position = Math.round((delay + side * STEREO_REFLECTION_SPREAD) * sampleRate);
+      if (position >= 0 && position < length) {
+        data[position] += gain;
+      }
+    });
+  }
+
+  return buffer;
+}
@@ -0,0 +1,271 @@
+/**
+ * Parsing and validation of free-text location searches.
+ *
+ * Shared by the search bar (client) and the /api/weather and /api/geocode
+ * routes (server) so both accept and interpret input the same way.
+ */
+
+import type { GeocodingResult } from "@/types/weather";
+
+export interface LocationQuery {
+  /** Place name or postcode sent to the geocoder */
+  name: string;
+  /** ISO 3166-1 alpha-2 country filter, from a qualifier or a country-specific postcode */
+  countryCode?: string;
+  /**
+   * US state abbreviation from a qualifier. Set together with countryCode when
+   * the code could be either ("Paris, IN"): results may match either one.
+   */
+  stateCode?: string;
+  /** Remaining qualifiers (region or country names) matched against results */
+  qualifiers: string[];
+  isPostcode: boolean;
+}
+
+interface PostcodeFormat {
+  /** Country the format belongs to, or null if it's shared by several countries */
+  countryCode: string | null;
+  pattern: RegExp;
+  /** Reduce to the part the geocoder indexes (GeoNames only has outward codes for some countries) */
+  normalize?: (match: RegExpMatchArray) => string;
+}
+
+// Checked in order against the uppercased input
+const POSTCODE_FORMATS: PostcodeFormat[] = [
+  // US ZIP+4: 97201-1234
+  { countryCode: "US", pattern: /^(\d{5})-\d{4}$/, normalize: (match) => match[1] },
+  // UK: SW1A 1AA, M1 1AE
+  { countryCode: "GB", pattern: /^([A-Z]{1,2}\d[A-Z\d]?) ?\d[A-Z]{2}$/, normalize: (match) => match[1] },
+  // Canada: K1A 0B1
+  { countryCode: "CA", pattern: /^([A-Z]\d[A-Z]) ?\d[A-Z]\d$/, normalize: (match) => match[1] },
+  // Netherlands: 1012 AB
+  { countryCode: "NL", pattern: /^(\d{4}) ?[A-Z]{2}$/, normalize: (match) => match[1] },
+  // Japan: 100-0001
+  { countryCode: "JP", pattern: /^\d{3}-\d{4}$/ },
+  // Brazil: 01310-100
+  { countryCode: "BR", pattern: /^\d{5}-\d{3}$/ },
+  // Plain digits: US/DE/FR/ES/IT (5), AU/CH/AT/DK (4), IN/RU/CN/SG (6)
+  { countryCode: null, pattern: /^\d{4,6}$/ },
+];
+
+// Common country names people type as two letters that aren't ISO codes
+const COUNTRY_CODE_ALIASES: Record<string, string> = {
+  UK: "GB",
+};
+
+// ISO 3166-1 alpha-2 codes
+const ISO_COUNTRY_CODES = new Set(
+  (
+    "AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ " +
+    "BR BS BT BV BW BY BZ CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM " +
+    "DO DZ EC EE EG EH ER ES ET FI FJ FK FM FO FR GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS " +
+    "GT GU GW GY HK HM HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN " +
+    "KP KR KW KY KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ " +
+    "MR MS MT MU MV MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM " +
+    "PN PR PS PT PW PY QA RE RO RS RU RW SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV " +
+    "SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG UM US UY UZ VA VC VE VG VI " +
+    "VN VU WF WS YE YT ZA ZM ZW"
+  ).split(" ")
+);
+
+// US state (and DC) abbreviations, as in "Portland, ME". Many are also ISO
+// country codes (ME is Montenegro, CA Canada), so these are read as regions.
+const US_STATE_ABBREVIATIONS: Record<string, string> = {
+  AL: "Alabama", AK: "Alaska", AZ: "Arizona", AR: "Arkansas", CA: "California",
+  CO: "Colorado", CT: "Connecticut", DE: "Delaware", DC: "District of Columbia", FL: "Florida",
+  GA: "Georgia", HI: "Hawaii", ID: "Idaho", IL: "Illinois", IN: "Indiana",
+  IA: "Iowa", KS: "Kansas", KY: "Kentucky", LA: "Louisiana", ME: "Maine",
+  MD: "Maryland", MA: "Massachusetts", MI: "Michigan", MN: "Minnesota", MS: "Mississippi",
+  MO: "Missouri", MT: "Montana", NE: "Nebraska", NV: "Nevada", NH: "New Hampshire",
+  NJ: "New Jersey", NM: "New Mexico", NY: "New York", NC: "North Carolina", ND: "North Dakota",
+  OH: "Ohio", OK: "Oklahoma", OR: "Oregon", PA: "Pennsylvania", RI: "Rhode Island",
+  SC: "South Carolina", SD: "South Dakota", TN: "Tennessee", TX: "Texas", UT: "Utah",
+  VT: "Vermont", VA: "Virginia", WA: "Washington", WV: "West Virginia", WI: "Wisconsin",
+  WY: "Wyoming",
+};
+
+// Letters in any script, combining marks, and the punctuation found in
+// place names ("St. John's", "Saint-Étienne", "Winston‑Salem").
+// Built with RegExp so the `u` flag works with the ES2017 target.
+const PLACE_NAME_PATTERN = new RegExp("^[\\p{L}\\p{M}][\\p{L}\\p{M}\\s'’.\\-‐‑]*$", "u");
+const COMBINING_MARKS = new RegExp("\\p{M}", "gu");
+
+const MIN_NAME_LENGTH = 2;
+const MAX_NAME_LENGTH = 100;
+// "City, Region, Country"
+const MAX_QUALIFIERS = 2;
+
+/**
+ * Example shown when input can't be parsed.
+ */
+export const LOCATION_QUERY_HINT =
+  'Enter a city (e.g. "Zürich" or "Tokyo, JP"), a postcode or coordinates';
+
+function isPlaceName(value: string): boolean {
+  return (
+    value.length >= MIN_NAME_LENGTH &&
+    value.length <= MAX_NAME_LENGTH &&
+    PLACE_NAME_PATTERN.test(value)
+  );
+}
+
+function parsePostcode(value: string): { name: string; countryCode?: string } | null {
+  const upper = value.toUpperCase();
+
+  for (const format of POSTCODE_FORMATS) {
+    const match = upper.match(format.pattern);
+    if (match) {
+      return {
+        name: format.normalize ? format.normalize(match) : upper,
+        countryCode: format.countryCode ?? undefined,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Lowercases and strips accents so "Zurich" matches "Zürich".
+ */
+function foldForComparison(value: string): string {
+  return value.normalize("NFD").replace(COMBINING_MARKS, "").toLowerCase().trim();
+}
+
+function isCode(value: string): boolean {
+  return /^[A-Za-z]{2}$/.test(value);
+}
+
+function normalizeCode(value: string): string {
+  const code = value.toUpperCase();
+  return COUNTRY_CODE_ALIASES[code] ?? code;
+}
+
+/**
+ * Checks a result against a two-letter code: its country, or for US
+ * places, its state. Exact matches only ("ME" is not Mexico or Meath).
+ */
+function matchesCode(result: GeocodingResult, code: string): boolean {
+  if (result.country_code === code) return true;
+
+  const state = US_STATE_ABBREVIATIONS[code];
+  return Boolean(state) && result.country_code === "US" && result.admin1 === state;
+}
+
+/**
+ * Parses and validates a free-text location search.
+ *
+ * The first comma-separated part is a place name or postcode; up to two more
+ * parts narrow the search. A final two-letter part is a country code or a
+ * US state abbreviation (or both: "CA" is Canada or California); anything
+ * else is a region or country name.
+ *
+ * @param input - User input
+ * @returns Parsed query, or null if the input isn't a valid location search
+ *
+ * @example
+ * parseLocationQuery("São Paulo")
+ * // → { name: "São Paulo", qualifiers: [], isPostcode: false }
+ * parseLocationQuery("Tokyo, JP")
+ * // → { name: "Tokyo", countryCode: "JP", qualifiers: [], isPostcode: false }
+ * parseLocationQuery("Portland, OR")
+ * // → { name: "Portland", stateCode: "OR", qualifiers: [], isPostcode: false }
+ * parseLocationQuery("Portland, ME")
+ * // → { name: "Portland", countryCode: "ME", stateCode: "ME", qualifiers: [], isPostcode: false }
+ * parseLocationQuery("Portland, Maine, United States")
+ * // → { name: "Portland", qualifiers: ["Maine", "United States"], isPostcode: false }
+ * parseLocationQuery("SW1A 1AA")
+ * // → { name: "SW1A", countryCode: "GB", qualifiers: [], isPostcode: true }
+ */
+export function parseLocationQuery(input: string): LocationQuery | null {
+  // Ignore empty parts so a trailing comma while typing stays valid
+  const parts = input
+    .split(",")
+    .map((part) => part.trim().replace(/\s+/g, " "))
+    .filter(Boolean);
+
+  if (parts.length === 0 || parts.length > MAX_QUALIFIERS + 1) return null;
+
+  const [first, ...qualifiers] = parts;
+  let countryCode: string | undefined;
+  let stateCode: string | undefined;
+
+  const lastQualifier = qualifiers[qualifiers.length - 1];
+  if (lastQualifier && isCode(lastQualifier)) {
+    const code = normalizeCode(lastQualifier);
+    const isState = code in US_STATE_ABBREVIATIONS;
+    // Unknown codes are kept as a country filter (which matches nothing)
+    countryCode = ISO_COUNTRY_CODES.has(code) || !isState ? code : undefined;
+    stateCode = isState ? code : undefined;
+    qualifiers.pop();
+  }
+
+  if (!qualifiers.every(isPlaceName)) return null;
+
+  const postcode = parsePostcode(first);
+  if (postcode) {
+    return {
+      name: postcode.name,
+      countryCode: countryCode ?? (stateCode ? undefined : postcode.countryCode),
+      stateCode,
+      qualifiers,
+      isPostcode: true,
+    };
+  }
+
+  if (!isPlaceName(first)) return null;
+
+  return { name: first, countryCode, stateCode, qualifiers, isPostcode: false };
+}
+
+/**
+ * Checks a geocoding result against a query's country/state code and its
+ * region/country qualifiers. Names ignore case and accents and match by
+ * prefix, so partially typed qualifiers still narrow suggestions; two-letter
+ * codes must match a country code or US state exactly.
+ *
+ * @param result - Geocoding result
+ * @param query - Parsed query
+ * @returns True if the code and every qualifier match the result's region or country
+ *
+ * @example
+ * matchesQualifiers({ name: "Portland", admin1: "Maine", country: "United States", ... },
+ *   { name: "Portland", qualifiers: ["maine"], isPostcode: false }) // true
+ * matchesQualifiers({ name: "Portland", admin1: "Maine", country_code: "US", ... },
+ *   { name: "Portland", countryCode: "ME", stateCode: "ME", qualifiers: [], isPostcode: false }) // true
+ */
+export function matchesQualifiers(result: GeocodingResult, query: LocationQuery): boolean {
+  const fields = [result.admin1, result.admin2, result.country, result.country_code]
+    .filter((field): field is string => Boolean(field))
+    .map(foldForComparison);
+
+  const codes = [query.countryCode, query.stateCode].filter((code): code is string => Boolean(code));
+  if (codes.length > 0 && !codes.some((code) => matchesCode(result, code))) return false;
+
+  return query.qualifiers.every((qualifier) => {
+    if (isCode(qualifier)) return matchesCode(result, normalizeCode(qualifier));
+
+    const folded = foldForComparison(qualifier);
+    return fields.some((field) => field.startsWith(folded));
+  });
+}
+
+/**
+ * Formats a geocoding result as a query that resolves back to the same place,
+ * e.g. for a shareable URL.
+ *
+ * @param location - Geocoding result
+ * @returns "Name, Region, CC" (region omitted if it repeats the name or can't be parsed)
+ *
+ * @example
+ * formatLocationQuery({ name: "Portland", admin1: "Maine", country_code: "US", ... })
+ * // → "Portland, Maine, US"
+ */
+export function formatLocationQuery(location: GeocodingResult): string {
+  const region =
+    location.admin1 && location.admin1 !== location.name && isPlaceName(location.admin1)
+      ? location.admin1
+      : null;
+
+  return [location.name, region, location.country_code].filter(Boolean).join(", ");
+}
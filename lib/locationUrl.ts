@@ -0,0 +1,68 @@
+/**
+ * Shareable URLs for searched locations.
+ *
+ *   /?q=Kyoto, JP               - free-text search (same rules as the search bar)
+ *   /at/35.0116,135.7681        - exact coordinates
+ */
+
+import { parseCoordinates } from "./coordinates";
+import type { Coordinates } from "./coordinates";
+
+export type LocationTarget =
+  | { type: "query"; query: string }
+  | { type: "coordinates"; coordinates: Coordinates };
+
+const COORDINATES_PATH_PREFIX = "/at/";
+
+// ~11 m; plenty for weather and keeps links short
+const COORDINATE_DECIMALS = 4;
+
+function roundCoordinate(value: number): number {
+  return Number(value.toFixed(COORDINATE_DECIMALS));
+}
+
+/**
+ * Builds the URL (path + search) for a location.
+ *
+ * @param target - Location to link to
+ * @returns Root-relative URL
+ *
+ * @example
+ * buildLocationUrl({ type: "query", query: "Kyoto, JP" })
+ * // → "/?q=Kyoto%2C%20JP"
+ * buildLocationUrl({ type: "coordinates", coordinates: { lat: 35.011636, lon: 135.768029 } })
+ * // → "/at/35.0116,135.768"
+ */
+export function buildLocationUrl(target: LocationTarget): string {
+  if (target.type === "coordinates") {
+    const { lat, lon } = target.coordinates;
+    return `${COORDINATES_PATH_PREFIX}${roundCoordinate(lat)},${roundCoordinate(lon)}`;
+  }
+
+  return `/?q=${encodeURIComponent(target.query)}`;
+}
+
+/**
+ * Reads the location a URL points to.
+ *
+ * @param pathname - URL path (e.g. window.location.pathname)
+ * @param search - URL query string including "?" (e.g. window.location.search)
+ * @returns Location, or null if the URL doesn't point to one
+ *
+ * @example
+ * parseLocationUrl("/at/35.0116,135.768", "")
+ * // → { type: "coordinates", coordinates: { lat: 35.0116, lon: 135.768 } }
+ * parseLocationUrl("/", "?q=Kyoto")
+ * // → { type: "query", query: "Kyoto" }
+ */
+export function parseLocationUrl(pathname: string, search: string): LocationTarget | null {
+  if (pathname.startsWith(COORDINATES_PATH_PREFIX)) {
+    const coordinates = parseCoordinates(
+      decodeURIComponent(pathname.slice(COORDINATES_PATH_PREFIX.length))
+    );
+    return coordinates ? { type: "coordinates", coordinates } : null;
+  }
+
+  const query = new URLSearchParams(search).get("q")?.trim();
+  return query ? { type: "query", query } : null;
+}
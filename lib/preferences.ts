@@ -0,0 +1,186 @@
+/**
+ * User preferences persisted in cookies.
+ *
+ * The theme keeps its own plain `skypin-theme` cookie, since the blocking
+ * script in the root layout reads it before hydration to avoid a flash of
+ * the wrong theme. Audio preferences are stored together as versioned JSON;
+ * cookies written by older versions are migrated when read, and anything
+ * missing or invalid falls back to the defaults.
+ */
+
+import Cookies from "js-cookie";
+import type { LayerMix } from "@/types/audio";
+
+export type Theme = "light" | "dark";
+
+const THEME_COOKIE = "skypin-theme";
+const AUDIO_COOKIE = "skypin-audio";
+const COOKIE_EXPIRY_DAYS = 365;
+
+/**
+ * Current audio preferences schema version.
+ * Bump it (and add a migration) whenever AudioPreferences changes shape.
+ */
+export const AUDIO_PREFERENCES_VERSION = 1;
+
+/**
+ * Audio settings restored when the audio system starts.
+ */
+export interface AudioPreferences {
+  /** Master volume (0.0 to 1.0) */
+  volume: number;
+
+  /** Whether audio is muted */
+  muted: boolean;
+
+  /** Mixer overrides by sound ID */
+  layerMix: Record<string, LayerMix>;
+
+  /** Last sleep timer length in minutes, or null if never set */
+  sleepTimerMinutes: number | null;
+
+  /** Whether weather/biome effects (muffling, reverb) are applied */
+  effectsEnabled: boolean;
+}
+
+export const DEFAULT_AUDIO_PREFERENCES: AudioPreferences = {
+  volume: 0.7,
+  muted: false,
+  layerMix: {},
+  sleepTimerMinutes: null,
+  effectsEnabled: true,
+};
+
+type StoredPreferences = Record<string, unknown> & { version?: unknown };
+
+/**
+ * Upgrade steps keyed by the version they upgrade from: MIGRATIONS[1]
+ * turns a version 1 cookie into version 2, and so on.
+ */
+const MIGRATIONS: Record<number, (stored: StoredPreferences) => StoredPreferences> = {};
+
+/**
+ * Bring stored preferences up to the current schema version.
+ *
+ * @param stored - Parsed cookie contents
+ * @returns Preferences in the current schema (fields may still be invalid)
+ */
+function migrateAudioPreferences(stored: StoredPreferences): StoredPreferences {
+  let version = typeof stored.version === "number" ? stored.version : 1;
+  let migrated = stored;
+
+  while (version < AUDIO_PREFERENCES_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (migrate) {
+      migrated = migrate(migrated);
+    }
+    version++;
+  }
+
+  return { ...migrated, version };
+}
+
+function isLayerMix(value: unknown): value is LayerMix {
+  if (typeof value !== "object" || value === null) return false;
+
+  const mix = value as Record<string, unknown>;
+  return (
+    typeof mix.gain === "number" &&
+    Number.isFinite(mix.gain) &&
+    typeof mix.muted === "boolean" &&
+    typeof mix.solo === "boolean"
+  );
+}
+
+/**
+ * Check each field, keeping the default for anything missing or invalid.
+ *
+ * @param stored - Migrated cookie contents
+ * @returns Complete, valid preferences
+ */
+function sanitizeAudioPreferences(stored: StoredPreferences): AudioPreferences {
+  const defaults = DEFAULT_AUDIO_PREFERENCES;
+  const { volume, muted, layerMix, sleepTimerMinutes, effectsEnabled } = stored;
+
+  return {
+    volume:
+      typeof volume === "number" && Number.isFinite(volume)
+        ? Math.max(0, Math.min(1, volume))
+        : defaults.volume,
+    muted: typeof muted === "boolean" ? muted : defaults.muted,
+    layerMix:
+      typeof layerMix === "object" && layerMix !== null
+        ? Object.fromEntries(Object.entries(layerMix).filter(([, mix]) => isLayerMix(mix)))
+        : defaults.layerMix,
+    sleepTimerMinutes:
+      typeof sleepTimerMinutes === "number" && sleepTimerMinutes > 0
+        ? sleepTimerMinutes
+        : defaults.sleepTimerMinutes,
+    effectsEnabled: typeof effectsEnabled === "boolean" ? effectsEnabled : defaults.effectsEnabled,
+  };
+}
+
+/**
+ * Read the saved audio preferences.
+ *
+ * @returns Saved preferences, or the defaults if there are none (or on the server)
+ *
+ * @example
+ * const { volume, muted } = loadAudioPreferences();
+ */
+export function loadAudioPreferences(): AudioPreferences {
+  if (typeof window === "undefined") return DEFAULT_AUDIO_PREFERENCES;
+
+  const cookie = Cookies.get(AUDIO_COOKIE);
+  if (!cookie) return DEFAULT_AUDIO_PREFERENCES;
+
+  try {
+    const stored = JSON.parse(cookie);
+    if (typeof stored !== "object" || stored === null) return DEFAULT_AUDIO_PREFERENCES;
+
+    return sanitizeAudioPreferences(migrateAudioPreferences(stored));
+  } catch {
+    // Corrupted cookie: start over
+    return DEFAULT_AUDIO_PREFERENCES;
+  }
+}
+
+/**
+ * Save changes to the audio preferences, keeping the other fields.
+ *
+ * @param changes - Fields to update
+ * @returns The full preferences as saved
+ *
+ * @example
+ * saveAudioPreferences({ volume: 0.5 });
+ */
+export function saveAudioPreferences(changes: Partial<AudioPreferences>): AudioPreferences {
+  const preferences = { ...loadAudioPreferences(), ...changes };
+
+  Cookies.set(
+    AUDIO_COOKIE,
+    JSON.stringify({ version: AUDIO_PREFERENCES_VERSION, ...preferences }),
+    { expires: COOKIE_EXPIRY_DAYS }
+  );
+
+  return preferences;
+}
+
+/**
+ * Read the saved theme.
+ *
+ * @returns Saved theme, or null if none has been saved
+ */
+export function loadThemePreference(): Theme | null {
+  const theme = Cookies.get(THEME_COOKIE);
+  return theme === "light" || theme === "dark" ? theme : null;
+}
+
+/**
+ * Save the theme.
+ *
+ * @param theme - Theme to save
+ */
+export function saveThemePreference(theme: Theme): void {
+  Cookies.set(THEME_COOKIE, theme, { expires: COOKIE_EXPIRY_DAYS });
+}
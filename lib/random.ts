@@ -0,0 +1,64 @@
+/**
+ * Deterministic pseudo-random helpers.
+ *
+ * Used wherever a choice should look random but stay stable for the same
+ * inputs (background images, optional sound layers), so a place looks and
+ * sounds the same each time it's loaded and results are reproducible.
+ */
+
+/**
+ * Simple hash function for string input.
+ * Converts a string to a stable numeric hash value.
+ *
+ * @param str - String to hash
+ * @returns Non-negative 32-bit integer hash
+ */
+export function hashString(str: string): number {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return Math.abs(hash);
+}
+
+/**
+ * Seeded pseudo-random number generator (LCG algorithm).
+ * Produces a single deterministic "random" number from a seed.
+ *
+ * @param seed - Integer seed value
+ * @returns Pseudo-random float between 0 and 1
+ */
+export function seededRandom(seed: number): number {
+  // Linear Congruential Generator constants (same as glibc)
+  const a = 1103515245;
+  const c = 12345;
+  const m = 2 ** 31;
+
+  const next = (a * seed + c) % m;
+  return next / m;
+}
+
+/**
+ * Creates a seeded generator for a sequence of pseudo-random numbers
+ * (mulberry32), as a drop-in replacement for Math.random.
+ *
+ * @param seed - Integer seed value
+ * @returns Function returning the next float between 0 (inclusive) and 1 (exclusive)
+ *
+ * @example
+ * const random = createSeededRandom(hashString("47.61,-122.33"));
+ * random(); // → 0.7311... (same sequence for the same seed)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -1,655 +1,528 @@
 /**
  * Biome and weather to sound layer mapping system.
  *
- * Defines which audio files play for each biome type, time of day,
- * and weather condition. The mapping prioritizes realistic ambient
- * soundscapes with base layers, weather-reactive layers, and time accents.
+ * Evaluates the declarative rule set in `soundRules.ts` against the current
+ * conditions (biome, time of day, weather, wind, temperature) to decide which
+ * audio files play and how loud, and which effects (reverb, fog/snow
+ * muffling) shape the mix. The engine knows nothing about individual biomes;
+ * adding a biome or tweaking a layer is a change to the rules only.
  */
 
 import type { BiomeType } from './biomeDetector';
 import type { TimeOfDay } from './biomeUtils';
-import type { SoundLayer } from '@/types/audio';
+import type { Coordinates } from './coordinates';
+import type {
+  SoundLayer,
+  SoundCategory,
+  SoundEffects,
+  EventSchedule,
+  WeatherIntensity,
+} from '@/types/audio';
 import {
   mapWeatherToIntensity,
   calculateWindVolume,
+  soundExists,
 } from './audioUtils';
+import { hashString, createSeededRandom } from './random';
+import {
+  SOUNDSCAPE_RULES,
+  SOUND_ROLL_PROBABILITY,
+  BIOME_REVERB,
+  OPEN_LOWPASS_FREQUENCY,
+  WEATHER_MUFFLING,
+  SNOW_REVERB_DAMPING,
+} from './soundRules';
 
 /**
- * Probability of including bird sounds (30% chance).
- * Birds are used sparingly to avoid overuse.
+ * Sound groups that are randomly included or left out per soundscape
+ * (one roll per evaluation, shared by every rule that checks the group).
+ * Rolls are seeded, so the same seed always gives the same groups.
  */
-const BIRD_SOUND_PROBABILITY = 0.3;
+export type SoundRoll = 'birds' | 'crickets' | 'frogs';
 
 /**
- * Probability of including cricket layers (30% chance).
- * Keeps nocturnal accents from becoming repetitive.
+ * Everything the rules can key on.
  */
-const CRICKET_SOUND_PROBABILITY = 0.3;
+export interface SoundscapeConditions {
+  biome: BiomeType;
+  timeOfDay: TimeOfDay;
+  /** WMO weather code (0-99) */
+  weatherCode: number;
+  windSpeedKph: number;
+  /** Direction the wind blows from in degrees (default: 0, north) */
+  windDirection?: number;
+  /** Relative humidity percentage (0-100) */
+  humidity: number;
+  /** Air temperature in °C (temperature conditions always hold if unknown) */
+  temperatureC?: number;
+  /** Where the soundscape plays (part of the default seed) */
+  location?: Coordinates;
+  /** Local date as YYYY-MM-DD (part of the default seed) */
+  date?: string;
+  /** Seed for the optional sound groups (default: hash of location, date and time slot) */
+  seed?: number;
+}
 
 /**
- * Probability of including frog layers (30% chance).
- * Prevents night soundscapes from sounding identical.
+ * Numeric range for a condition: matches `min < value <= max`.
+ * Either bound may be omitted. An unknown value matches any range.
  */
-const FROG_SOUND_PROBABILITY = 0.3;
+export interface ValueRange {
+  min?: number;
+  max?: number;
+}
 
 /**
- * Determines if bird sounds should be included based on probability.
- *
- * @returns True if birds should be included (30% of the time)
+ * Conditions for a rule to apply. All listed conditions must hold;
+ * omitted conditions always hold.
  */
-function shouldIncludeBirds(): boolean {
-  return Math.random() < BIRD_SOUND_PROBABILITY;
+export interface RuleConditions extends Partial<Record<SoundRoll, boolean>> {
+  timeOfDay?: TimeOfDay[];
+  /** Any rain, drizzle, showers or snow */
+  precipitation?: boolean;
+  /** Rain, drizzle or showers (not snow) */
+  rain?: boolean;
+  /** Snowfall */
+  snow?: boolean;
+  /** Thunderstorm in progress */
+  thunder?: boolean;
+  windSpeedKph?: ValueRange;
+  temperatureC?: ValueRange;
 }
 
 /**
- * Determines if cricket sounds should be included based on probability.
+ * A value computed from the current conditions (volume, fade, event rate).
  *
- * @returns True if crickets should be included (30% of the time)
+ * - number: constant
+ * - wind/rain/thunder: `input * scale + offset`, clamped to min/max.
+ *   wind is the wind volume curve (0-1), rain and thunder the
+ *   WeatherIntensity values (0-1).
+ * - timeOfDay: looked up in `values`, then scaled/offset/clamped the same way.
+ *   The rule is skipped at times missing from the table.
  */
-function shouldIncludeCrickets(): boolean {
-  return Math.random() < CRICKET_SOUND_PROBABILITY;
+export type RuleValue =
+  | number
+  | {
+      input: 'wind' | 'rain' | 'thunder';
+      scale?: number;
+      offset?: number;
+      min?: number;
+      max?: number;
+    }
+  | {
+      input: 'timeOfDay';
+      values: Partial<Record<TimeOfDay, number>>;
+      scale?: number;
+      offset?: number;
+      min?: number;
+      max?: number;
+    };
+
+/**
+ * One sound layer and the conditions under which it plays.
+ */
+export interface SoundRule {
+  soundId: string;
+  /** Layer category; 'event' layers play as one-shots, everything else loops */
+  category: SoundCategory;
+  /** Conditions to apply; an array matches if any entry matches */
+  when?: RuleConditions | RuleConditions[];
+  volume: RuleValue;
+  fadeInDuration?: RuleValue;
+  startDelay?: number;
+  /** Fixed stereo position, or 'wind' to lean toward the wind direction */
+  pan?: number | 'wind';
+  /** Required for 'event' layers */
+  event?: Omit<EventSchedule, 'ratePerMinute'> & { ratePerMinute: RuleValue };
 }
 
 /**
- * Determines if frog sounds should be included based on probability.
- *
- * @returns True if frogs should be included (30% of the time)
+ * Rules for every biome, in layer order.
  */
-function shouldIncludeFrogs(): boolean {
-  return Math.random() < FROG_SOUND_PROBABILITY;
+export type SoundRuleSet = Record<BiomeType, SoundRule[]>;
+
+/**
+ * Everything a rule is evaluated against, derived once per update.
+ */
+interface RuleContext {
+  conditions: SoundscapeConditions;
+  weather: WeatherIntensity;
+  windVolume: number;
+  windPan: number;
+  rolls: Record<SoundRoll, boolean>;
 }
 
+const TIMES_OF_DAY: TimeOfDay[] = ['dawn', 'day', 'dusk', 'evening', 'night'];
+
 /**
- * Gets the complete sound layer configuration for current conditions.
+ * How far wind layers lean toward the side the wind blows from (0 to 1).
+ * Kept subtle so wind never sits entirely in one ear.
+ */
+const WIND_PAN_AMOUNT = 0.4;
+
+/**
+ * Converts a meteorological wind direction into a stereo position.
  *
- * Sound layers are prioritized as follows:
- * 1. Base ambient (always present, defines the biome soundscape)
- * 2. Weather layers (rain, thunder - conditional on weather code)
- * 3. Wind layers (volume scaled by wind speed)
- * 4. Time accents (crickets at night, church bells, etc.)
- * 5. Bird sounds (30% probability during daytime)
+ * Treats the listener as facing north: wind from the east leans right,
+ * from the west leans left, and from due north or south stays centered.
  *
- * @param biome - Detected biome type
- * @param timeOfDay - Current time classification (day/evening/night)
- * @param weatherCode - WMO weather code (0-99)
- * @param windSpeedKph - Wind speed in km/h
- * @param humidity - Relative humidity percentage (0-100)
- * @returns Array of sound layers to play simultaneously
+ * @param windDirection - Direction the wind blows FROM, in degrees (0 = north, 90 = east)
+ * @returns Pan position (-WIND_PAN_AMOUNT to WIND_PAN_AMOUNT)
  *
  * @example
- * getSoundLayers("forest", "evening", 0, 15, 65)
- * // Returns: [
- * //   { soundId: "birds-forest_light_far", volume: 0.6, category: "base", ... }, // (30% chance)
- * //   { soundId: "wind_forest_medium", volume: 0.4, category: "base", ... },
- * //   { soundId: "crickets_far", volume: 0.7, category: "accent", ... }
- * // ]
+ * getWindPan(90)   // → 0.4 (east wind, right)
+ * getWindPan(270)  // → -0.4 (west wind, left)
+ * getWindPan(0)    // → 0 (north wind, centered)
  */
-export function getSoundLayers(
-  biome: BiomeType,
-  timeOfDay: TimeOfDay,
-  weatherCode: number,
-  windSpeedKph: number,
-  humidity: number
-): SoundLayer[] {
-  const layers: SoundLayer[] = [];
-  const weatherIntensity = mapWeatherToIntensity(weatherCode);
-
-  // Determine if this soundscape should include birds
-  const includeBirds = shouldIncludeBirds();
-  const includeCrickets = shouldIncludeCrickets();
-  const includeFrogs = shouldIncludeFrogs();
-
-  // Delegate to biome-specific mapping functions
-  switch (biome) {
-    case 'city':
-      layers.push(
-        ...getCitySounds(timeOfDay, weatherIntensity, windSpeedKph, includeBirds, includeCrickets)
-      );
-      break;
-
-    case 'forest':
-      layers.push(
-        ...getForestSounds(timeOfDay, weatherIntensity, windSpeedKph, includeBirds, includeCrickets)
-      );
-      break;
-
-    case 'field':
-      layers.push(
-        ...getFieldSounds(timeOfDay, weatherIntensity, windSpeedKph, includeBirds, includeCrickets)
-      );
-      break;
-
-    case 'beach':
-      layers.push(
-        ...getBeachSounds(timeOfDay, weatherIntensity, windSpeedKph, includeBirds, includeCrickets)
-      );
-      break;
-
-    case 'lake':
-      layers.push(
-        ...getLakeSounds(
-          timeOfDay,
-          weatherIntensity,
-          windSpeedKph,
-          includeBirds,
-          includeCrickets,
-          includeFrogs
-        )
-      );
-      break;
-
-    case 'ocean':
-      layers.push(
-        ...getOceanSounds(timeOfDay, weatherIntensity, windSpeedKph, includeBirds, includeCrickets)
-      );
-      break;
-
-    case 'desert':
-      layers.push(
-        ...getDesertSounds(timeOfDay, weatherIntensity, windSpeedKph, includeBirds, includeCrickets)
-      );
-      break;
-  }
-
-  return layers;
+function getWindPan(windDirection: number): number {
+  const pan = Math.sin((windDirection * Math.PI) / 180) * WIND_PAN_AMOUNT;
+  // Round off floating-point noise (e.g. sin(180°)) so unchanged wind doesn't re-pan
+  return Math.round(pan * 100) / 100;
 }
 
 /**
- * City biome soundscape.
+ * Derives a stable seed from where and when the soundscape plays, so a place
+ * keeps the same birds/crickets/frogs for the rest of the time slot.
  *
- * Base: Traffic ambience, urban chatter
- * Weather: City rain/traffic mix
- * Time: Church bells (morning/evening in some areas)
- *
- * Cities have constant ambient noise regardless of time of day.
+ * Coordinates are rounded to 2 decimal places (~1km), like background image
+ * selection, so small location differences don't change the soundscape.
  */
-function getCitySounds(
-  timeOfDay: TimeOfDay,
-  weather: ReturnType<typeof mapWeatherToIntensity>,
-  windSpeedKph: number,
-  includeBirds: boolean,
-  includeCrickets: boolean
-): SoundLayer[] {
-  const layers: SoundLayer[] = [];
-
-  // Base city ambience - always present
-  layers.push({
-    soundId: 'traffic_medium_close',
-    volume: 0.5,
-    loop: true,
-    category: 'base',
-  });
+function getDefaultSeed(conditions: SoundscapeConditions): number {
+  const { location, date, biome, timeOfDay } = conditions;
+  const place = location
+    ? `${Math.round(location.lat * 100) / 100},${Math.round(location.lon * 100) / 100}`
+    : '';
+  return hashString(`${place},${date ?? ''},${biome},${timeOfDay}`);
+}
 
-  layers.push({
-    soundId: 'chatter-footsteps_medium',
-    volume: 0.4,
-    loop: true,
-    category: 'base',
-    fadeInDuration: 3,
-  });
+/**
+ * Rolls each optional sound group once (e.g. birds play 30% of the time).
+ *
+ * @param seed - Seed for the rolls
+ * @returns Whether each group is included in this soundscape
+ */
+function rollSoundGroups(seed: number): Record<SoundRoll, boolean> {
+  const random = createSeededRandom(seed);
+  return {
+    birds: random() < SOUND_ROLL_PROBABILITY.birds,
+    crickets: random() < SOUND_ROLL_PROBABILITY.crickets,
+    frogs: random() < SOUND_ROLL_PROBABILITY.frogs,
+  };
+}
 
-  // Add distant traffic for depth
-  layers.push({
-    soundId: 'traffic_medium_far',
-    volume: 0.3,
-    loop: true,
-    category: 'base',
-    fadeInDuration: 4,
-  });
+function inRange(value: number | undefined, range: ValueRange): boolean {
+  if (value === undefined) return true;
+  if (range.min !== undefined && value <= range.min) return false;
+  if (range.max !== undefined && value > range.max) return false;
+  return true;
+}
 
-  // Weather: Rain + city traffic mix
-  if (weather.hasPrecipitation) {
-    layers.push({
-      soundId: 'rain-wind-city-traffic_medium_far',
-      volume: Math.min(0.7, weather.rain * 0.9),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 5,
-    });
-  }
+function matchesConditions(when: RuleConditions, context: RuleContext): boolean {
+  const { conditions, weather, rolls } = context;
 
-  // Accent: Church bells in early morning or evening
-  if (timeOfDay === 'evening') {
-    layers.push({
-      soundId: 'church-bells_medium_far',
-      volume: 0.25,
-      loop: true,
-      category: 'accent',
-      fadeInDuration: 2,
-      startDelay: 10, // Delay to avoid overwhelming initial soundscape
-    });
+  if (when.timeOfDay && !when.timeOfDay.includes(conditions.timeOfDay)) return false;
+  if (when.precipitation !== undefined && when.precipitation !== weather.hasPrecipitation) {
+    return false;
   }
+  if (when.rain !== undefined && when.rain !== weather.rain > 0) return false;
+  if (when.snow !== undefined && when.snow !== weather.snow > 0) return false;
+  if (when.thunder !== undefined && when.thunder !== weather.thunder > 0) return false;
+  if (when.windSpeedKph && !inRange(conditions.windSpeedKph, when.windSpeedKph)) return false;
+  if (when.temperatureC && !inRange(conditions.temperatureC, when.temperatureC)) return false;
+
+  return (Object.keys(rolls) as SoundRoll[]).every(
+    (roll) => when[roll] === undefined || when[roll] === rolls[roll]
+  );
+}
 
-  return layers;
+function ruleApplies(rule: SoundRule, context: RuleContext): boolean {
+  if (!rule.when) return true;
+  const alternatives = Array.isArray(rule.when) ? rule.when : [rule.when];
+  return alternatives.some((when) => matchesConditions(when, context));
 }
 
 /**
- * Forest biome soundscape.
- *
- * Base: Forest birds (30% chance), rustling wind through trees
- * Weather: Rain through canopy, distant thunder
- * Time: Crickets (30% chance) and frogs (30% chance) at night
+ * Computes a rule value for the current conditions.
  *
- * Forests are quieter at night with nocturnal sounds.
+ * @returns The value, or null if a time-of-day table has no entry for now
  */
-function getForestSounds(
-  timeOfDay: TimeOfDay,
-  weather: ReturnType<typeof mapWeatherToIntensity>,
-  windSpeedKph: number,
-  includeBirds: boolean,
-  includeCrickets: boolean
-): SoundLayer[] {
-  const layers: SoundLayer[] = [];
-
-  // Base: Birds (daytime only, 30% chance)
-  if (timeOfDay === 'day' && includeBirds) {
-    layers.push({
-      soundId: 'birds-forest_light_far',
-      volume: 0.3,
-      loop: true,
-      category: 'base',
-    });
-  }
-
-  // Base: Wind through forest (always present, volume varies)
-  const windVolume = calculateWindVolume(windSpeedKph);
-  layers.push({
-    soundId: 'wind_forest_medium',
-    volume: Math.max(0.3, windVolume * 0.7), // Never silent, scale with wind
-    loop: true,
-    category: 'base',
-    fadeInDuration: 4,
-  });
+function evaluateValue(value: RuleValue, context: RuleContext): number | null {
+  if (typeof value === 'number') return value;
 
-  // Weather: Rain through forest canopy
-  if (weather.hasPrecipitation) {
-    layers.push({
-      soundId: 'rain_medium',
-      volume: Math.min(0.65, weather.rain * 0.8),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 6,
-    });
-  }
-
-  // Weather: Thunder (if stormy)
-  if (weather.thunder > 0) {
-    layers.push({
-      soundId: 'thunder_light_far',
-      volume: Math.min(0.5, weather.thunder * 0.6),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 3,
-    });
+  let input: number | undefined;
+  switch (value.input) {
+    case 'wind':
+      input = context.windVolume;
+      break;
+    case 'rain':
+      input = context.weather.rain;
+      break;
+    case 'thunder':
+      input = context.weather.thunder;
+      break;
+    case 'timeOfDay':
+      input = value.values[context.conditions.timeOfDay];
+      break;
   }
 
-  // Time accent: Crickets at evening/night (30% chance)
-  if ((timeOfDay === 'evening' || timeOfDay === 'night') && includeCrickets) {
-    layers.push({
-      soundId: 'crickets_far',
-      volume: timeOfDay === 'night' ? 0.35 : 0.25,
-      loop: true,
-      category: 'accent',
-      fadeInDuration: 8,
-    });
-  }
+  if (input === undefined) return null;
 
-  return layers;
+  let result = input * (value.scale ?? 1) + (value.offset ?? 0);
+  if (value.min !== undefined) result = Math.max(value.min, result);
+  if (value.max !== undefined) result = Math.min(value.max, result);
+  return result;
 }
 
 /**
- * Field/grassland biome soundscape.
- *
- * Base: Distant birds (30% chance), wind through grass
- * Weather: Light rain on vegetation, distant thunder
- * Time: Summer crickets at evening/night (30% chance)
+ * Turns a matching rule into a playable layer.
  *
- * Open fields emphasize wind and distant sounds.
+ * @returns The layer, or null if one of its values is undefined right now
  */
-function getFieldSounds(
-  timeOfDay: TimeOfDay,
-  weather: ReturnType<typeof mapWeatherToIntensity>,
-  windSpeedKph: number,
-  includeBirds: boolean,
-  includeCrickets: boolean
-): SoundLayer[] {
-  const layers: SoundLayer[] = [];
-
-  // Base: Distant birds (daytime, 30% chance)
-  if (timeOfDay === 'day' && includeBirds) {
-    layers.push({
-      soundId: 'birds_far',
-      volume: 0.05,
-      loop: true,
-      category: 'base',
-    });
+function buildLayer(rule: SoundRule, context: RuleContext): SoundLayer | null {
+  const volume = evaluateValue(rule.volume, context);
+  if (volume === null) return null;
+
+  const layer: SoundLayer = {
+    soundId: rule.soundId,
+    volume,
+    loop: rule.category !== 'event',
+    category: rule.category,
+  };
+
+  if (rule.fadeInDuration !== undefined) {
+    const fadeInDuration = evaluateValue(rule.fadeInDuration, context);
+    if (fadeInDuration === null) return null;
+    layer.fadeInDuration = fadeInDuration;
   }
 
-  // Base: Strong wind through grass/field (prominent in open areas)
-  const windVolume = calculateWindVolume(windSpeedKph);
-  layers.push({
-    soundId: windSpeedKph > 20 ? 'wind_field_strong' : 'wind_grass_strong',
-    volume: Math.max(0.4, windVolume * 0.9), // Wind is more prominent in fields
-    loop: true,
-    category: 'base',
-    fadeInDuration: 3,
-  });
-
-  // Weather: Light rain on grass
-  if (weather.hasPrecipitation) {
-    layers.push({
-      soundId: 'rain_light',
-      volume: Math.min(0.6, weather.rain * 0.75),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 5,
-    });
+  if (rule.startDelay !== undefined) {
+    layer.startDelay = rule.startDelay;
   }
 
-  // Weather: Distant thunder
-  if (weather.thunder > 0) {
-    layers.push({
-      soundId: 'thunder_light_far',
-      volume: Math.min(0.45, weather.thunder * 0.55),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 3,
-    });
+  if (rule.pan !== undefined) {
+    layer.pan = rule.pan === 'wind' ? context.windPan : rule.pan;
   }
 
-  // Time accent: Summer crickets (evening/night, 30% chance)
-  if ((timeOfDay === 'evening' || timeOfDay === 'night') && includeCrickets) {
-    layers.push({
-      soundId: 'crickets-summer_far',
-      volume: timeOfDay === 'night' ? 0.375 : 0.275,
-      loop: true,
-      category: 'accent',
-      fadeInDuration: 10,
-    });
+  if (rule.event) {
+    const ratePerMinute = evaluateValue(rule.event.ratePerMinute, context);
+    if (ratePerMinute === null) return null;
+    layer.event = { ...rule.event, ratePerMinute };
   }
 
-  return layers;
+  return layer;
 }
 
 /**
- * Beach biome soundscape.
+ * Gets the complete sound layer configuration for current conditions.
+ *
+ * Every rule for the biome whose conditions match becomes a layer, in rule
+ * order. Optional groups (birds, crickets, frogs) are rolled from the seed,
+ * so the same conditions and seed always give the same layers.
  *
- * Base: Ocean waves (close), coastal wind with/without birds (30% chance)
- * Weather: Rain on beach, thunder
- * Time: No specific time accents (waves constant)
+ * @param conditions - Current biome, time and weather
+ * @param rules - Rule set to evaluate (default: SOUNDSCAPE_RULES)
+ * @returns Array of sound layers to play simultaneously
  *
- * Beaches have rhythmic wave patterns and coastal ambience.
+ * @example
+ * getSoundLayers({ biome: "forest", timeOfDay: "evening", weatherCode: 0, windSpeedKph: 15, humidity: 65, seed: 42 })
+ * // Returns: [
+ * //   { soundId: "wind_forest_medium", volume: 0.4, category: "base", ... },
+ * //   { soundId: "crickets_far", volume: 0.25, category: "accent", ... } // (30% of seeds)
+ * // ]
  */
-function getBeachSounds(
-  timeOfDay: TimeOfDay,
-  weather: ReturnType<typeof mapWeatherToIntensity>,
-  windSpeedKph: number,
-  includeBirds: boolean,
-  includeCrickets: boolean
+export function getSoundLayers(
+  conditions: SoundscapeConditions,
+  rules: SoundRuleSet = SOUNDSCAPE_RULES
 ): SoundLayer[] {
-  const layers: SoundLayer[] = [];
-
-  // Base: Ocean waves (medium, close enough to hear detail)
-  layers.push({
-    soundId: 'waves_medium_close',
-    volume: 0.65,
-    loop: true,
-    category: 'base',
-  });
-
-  // Base: Coastal wind with/without birds (30% chance for birds during daytime)
-  const windVolume = calculateWindVolume(windSpeedKph);
-  if (timeOfDay === 'day' && includeBirds) {
-    layers.push({
-      soundId: 'wind_coastal_birds',
-      volume: Math.max(0.2, windVolume * 0.35),
-      loop: true,
-      category: 'base',
-      fadeInDuration: 4,
-    });
-  } else {
-    // Night or no birds: Just coastal wind
-    layers.push({
-      soundId: 'wind_coastal_medium_far',
-      volume: Math.max(0.35, windVolume * 0.55),
-      loop: true,
-      category: 'base',
-      fadeInDuration: 4,
-    });
-  }
-
-  // Weather: Rain on beach
-  if (weather.hasPrecipitation) {
-    layers.push({
-      soundId: 'rain_medium',
-      volume: Math.min(0.55, weather.rain * 0.7),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 5,
-    });
-  }
-
-  // Weather: Thunder over ocean
-  if (weather.thunder > 0) {
-    layers.push({
-      soundId: 'thunder_medium_close',
-      volume: Math.min(0.6, weather.thunder * 0.75),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 2,
-    });
-  }
-
-  return layers;
+  const context: RuleContext = {
+    conditions,
+    weather: mapWeatherToIntensity(conditions.weatherCode),
+    windVolume: calculateWindVolume(conditions.windSpeedKph),
+    windPan: getWindPan(conditions.windDirection ?? 0),
+    rolls: rollSoundGroups(conditions.seed ?? getDefaultSeed(conditions)),
+  };
+
+  return rules[conditions.biome]
+    .filter((rule) => ruleApplies(rule, context))
+    .map((rule) => buildLayer(rule, context))
+    .filter((layer): layer is SoundLayer => layer !== null);
 }
 
 /**
- * Lake biome soundscape.
+ * Gets the effects for current conditions: the biome's reverb, and muffling
+ * (low-pass + high shelf) that deepens with fog density and snowfall.
  *
- * Base: Small waves lapping, gentle wind, birds (30% chance)
- * Weather: Rain on water, distant thunder
- * Time: Frogs at night
+ * @param conditions - Current biome, time and weather
+ * @returns Effects settings for AudioManager.setEffects
  *
- * Lakes are calmer than ocean, with nocturnal wildlife.
+ * @example
+ * getSoundEffects({ biome: "forest", timeOfDay: "day", weatherCode: 0, windSpeedKph: 10, humidity: 60 })
+ * // → { lowpassFrequency: 20000, highShelfGain: 0, reverb: { space: "forest", mix: 0.3 } }
+ * getSoundEffects({ biome: "city", timeOfDay: "night", weatherCode: 75, windSpeedKph: 10, humidity: 90 })
+ * // → { lowpassFrequency: 2000, highShelfGain: -10, reverb: { space: "city", mix: 0.1 } }
  */
-function getLakeSounds(
-  timeOfDay: TimeOfDay,
-  weather: ReturnType<typeof mapWeatherToIntensity>,
-  windSpeedKph: number,
-  includeBirds: boolean,
-  includeCrickets: boolean,
-  includeFrogs: boolean
-): SoundLayer[] {
-  const layers: SoundLayer[] = [];
-
-  // Base: Small waves lapping at shore
-  layers.push({
-    soundId: 'waves_small_close',
-    volume: 0.5,
-    loop: true,
-    category: 'base',
-  });
+export function getSoundEffects(conditions: SoundscapeConditions): SoundEffects {
+  const weather = mapWeatherToIntensity(conditions.weatherCode);
 
-  // Base: Gentle wind (lakes are more sheltered)
-  const windVolume = calculateWindVolume(windSpeedKph);
-  layers.push({
-    soundId: 'wind_autumn', // Softer wind sound
-    volume: Math.max(0.25, windVolume * 0.5),
-    loop: true,
-    category: 'base',
-    fadeInDuration: 5,
+  // Interpolate cutoffs on a log scale, so half density sounds half as muffled
+  const muffle = (amount: number, target: (typeof WEATHER_MUFFLING)['fog']) => ({
+    lowpassFrequency: OPEN_LOWPASS_FREQUENCY * (target.lowpassFrequency / OPEN_LOWPASS_FREQUENCY) ** amount,
+    highShelfGain: target.highShelfGain * amount,
   });
+  const fog = muffle(weather.fog, WEATHER_MUFFLING.fog);
+  const snow = muffle(weather.snow, WEATHER_MUFFLING.snow);
 
-  // Base: Birds (daytime, 30% chance)
-  if (timeOfDay === 'day' && includeBirds) {
-    layers.push({
-      soundId: 'birds_far',
-      volume: 0.2,
-      loop: true,
-      category: 'base',
-      fadeInDuration: 3,
-    });
-  }
+  const reverb = BIOME_REVERB[conditions.biome];
 
-  // Weather: Rain on lake water
-  if (weather.hasPrecipitation) {
-    layers.push({
-      soundId: 'rain_light',
-      volume: Math.min(0.6, weather.rain * 0.75),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 6,
-    });
-  }
+  return {
+    lowpassFrequency: Math.round(Math.min(fog.lowpassFrequency, snow.lowpassFrequency)),
+    highShelfGain: Math.round(Math.min(fog.highShelfGain, snow.highShelfGain) * 10) / 10,
+    reverb: {
+      space: reverb.space,
+      mix: Math.round(reverb.mix * (1 - SNOW_REVERB_DAMPING * weather.snow) * 1000) / 1000,
+    },
+  };
+}
 
-  // Weather: Distant thunder
-  if (weather.thunder > 0) {
-    layers.push({
-      soundId: 'thunder_light_far',
-      volume: Math.min(0.5, weather.thunder * 0.6),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 3,
-    });
-  }
+function getAlternatives(rule: SoundRule): RuleConditions[] {
+  return rule.when ? (Array.isArray(rule.when) ? rule.when : [rule.when]) : [{}];
+}
 
-  // Time accent: Frogs at night (30% chance)
-  if (timeOfDay === 'night' && includeFrogs) {
-    layers.push({
-      soundId: 'frogs_close',
-      volume: 0.35,
-      loop: true,
-      category: 'accent',
-      fadeInDuration: 12,
-    });
+/**
+ * Checks a time-of-day table covers every time the rule can apply at.
+ */
+function findMissingTimes(value: RuleValue | undefined, rule: SoundRule): TimeOfDay[] {
+  if (value === undefined || typeof value === 'number' || value.input !== 'timeOfDay') {
+    return [];
   }
 
-  return layers;
+  const alternatives = getAlternatives(rule);
+  const times = new Set(alternatives.flatMap((when) => when.timeOfDay ?? TIMES_OF_DAY));
+
+  return Array.from(times).filter((time) => value.values[time] === undefined);
+}
+
+function rangesOverlap(a: ValueRange | undefined, b: ValueRange | undefined): boolean {
+  // Ranges are `min < value <= max`; unknown values match any range
+  const min = Math.max(a?.min ?? -Infinity, b?.min ?? -Infinity);
+  const max = Math.min(a?.max ?? Infinity, b?.max ?? Infinity);
+  return min < max;
 }
 
 /**
- * Ocean biome soundscape.
- *
- * Base: Medium-far waves, coastal wind
- * Weather: Rain, thunder
- * Time: No specific accents (ocean is constant)
- *
- * Open ocean has distant wave sounds and stronger wind.
+ * Checks whether some conditions could satisfy both a and b.
  */
-function getOceanSounds(
-  timeOfDay: TimeOfDay,
-  weather: ReturnType<typeof mapWeatherToIntensity>,
-  windSpeedKph: number,
-  includeBirds: boolean,
-  includeCrickets: boolean
-): SoundLayer[] {
-  const layers: SoundLayer[] = [];
-
-  // Base: Distant ocean waves
-  layers.push({
-    soundId: 'waves_medium_far',
-    volume: 0.6,
-    loop: true,
-    category: 'base',
-  });
-
-  // Base: Coastal wind (ocean winds tend to be steady)
-  const windVolume = calculateWindVolume(windSpeedKph);
-  layers.push({
-    soundId: 'wind_coastal_medium_far',
-    volume: Math.max(0.4, windVolume * 0.7),
-    loop: true,
-    category: 'base',
-    fadeInDuration: 4,
-  });
-
-  // Weather: Rain on ocean
-  if (weather.hasPrecipitation) {
-    layers.push({
-      soundId: 'rain_medium',
-      volume: Math.min(0.6, weather.rain * 0.75),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 5,
-    });
+function conditionsOverlap(a: RuleConditions, b: RuleConditions): boolean {
+  if (a.timeOfDay && b.timeOfDay && !a.timeOfDay.some((time) => b.timeOfDay!.includes(time))) {
+    return false;
   }
 
-  // Weather: Thunder over water
-  if (weather.thunder > 0) {
-    layers.push({
-      soundId: 'thunder_medium_close',
-      volume: Math.min(0.65, weather.thunder * 0.8),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 2,
-    });
+  const flags = ['precipitation', 'rain', 'snow', 'thunder', 'birds', 'crickets', 'frogs'] as const;
+  if (flags.some((flag) => a[flag] !== undefined && b[flag] !== undefined && a[flag] !== b[flag])) {
+    return false;
   }
 
-  return layers;
+  // Rain and snow are precipitation
+  const dry = (when: RuleConditions) => when.precipitation === false;
+  const wet = (when: RuleConditions) => when.rain === true || when.snow === true;
+  if ((dry(a) && wet(b)) || (wet(a) && dry(b))) return false;
+
+  return (
+    rangesOverlap(a.windSpeedKph, b.windSpeedKph) &&
+    rangesOverlap(a.temperatureC, b.temperatureC)
+  );
 }
 
 /**
- * Desert biome soundscape.
+ * Validates a rule set against the sound registry.
  *
- * Base: Strong wind (minimal other sounds), sparse birds (30% chance)
- * Weather: Rare rain, thunder
- * Time: Minimal variation (deserts are sparse)
+ * Checks that every sound exists in SOUND_PATH_MAP, that event rules (and
+ * only event rules) have a schedule, that no sound is both an event and a
+ * looping layer in one biome (a kept sound can't switch between the two),
+ * that rules for the same sound can't apply at once (only one layer per
+ * sound can play), that constant volumes are within 0-1, and that time-of-day tables cover
+ * the times their rule applies at.
  *
- * Deserts emphasize silence and wind, with sparse accents.
+ * @param rules - Rule set to check (default: SOUNDSCAPE_RULES)
+ * @returns Problems found, one message each (empty if valid)
+ *
+ * @example
+ * validateSoundRules()  // → []
+ * validateSoundRules({ ...SOUNDSCAPE_RULES, city: [{ soundId: "sirens", category: "base", volume: 1 }] })
+ * // → ['city: unknown sound "sirens"']
  */
-function getDesertSounds(
-  timeOfDay: TimeOfDay,
-  weather: ReturnType<typeof mapWeatherToIntensity>,
-  windSpeedKph: number,
-  includeBirds: boolean,
-  includeCrickets: boolean
-): SoundLayer[] {
-  const layers: SoundLayer[] = [];
-
-  // Base: Wind (primary desert sound)
-  const windVolume = calculateWindVolume(windSpeedKph);
-  layers.push({
-    soundId: 'wind_field_strong',
-    volume: Math.max(0.35, windVolume * 0.8),
-    loop: true,
-    category: 'base',
-    fadeInDuration: 3,
-  });
-
-  // Optional: Very subtle distant birds (day only, low volume, 30% chance)
-  if (timeOfDay === 'day' && includeBirds) {
-    layers.push({
-      soundId: 'birds_far',
-      volume: 0.1,
-      loop: true,
-      category: 'base',
-      fadeInDuration: 5,
-    });
-  }
-
-  // Weather: Rain (rare in desert, but dramatic when it occurs)
-  if (weather.hasPrecipitation) {
-    layers.push({
-      soundId: 'rain_light',
-      volume: Math.min(0.5, weather.rain * 0.65),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 6,
+export function validateSoundRules(rules: SoundRuleSet = SOUNDSCAPE_RULES): string[] {
+  const problems: string[] = [];
+
+  for (const [biome, biomeRules] of Object.entries(rules)) {
+    if (biomeRules.length === 0) {
+      problems.push(`${biome}: no rules`);
+    }
+
+    const eventSounds = new Set(
+      biomeRules.filter((rule) => rule.category === 'event').map((rule) => rule.soundId)
+    );
+    const loopSounds = new Set(
+      biomeRules.filter((rule) => rule.category !== 'event').map((rule) => rule.soundId)
+    );
+    for (const soundId of eventSounds) {
+      if (loopSounds.has(soundId)) {
+        problems.push(`${biome}: ${soundId}: used as both an event and a looping layer`);
+      }
+    }
+
+    biomeRules.forEach((rule, index) => {
+      const overlapping = biomeRules
+        .slice(index + 1)
+        .some(
+          (other) =>
+            other.soundId === rule.soundId &&
+            getAlternatives(rule).some((a) =>
+              getAlternatives(other).some((b) => conditionsOverlap(a, b))
+            )
+        );
+      if (overlapping) {
+        problems.push(`${biome}: ${rule.soundId}: several rules can apply at once`);
+      }
     });
-  }
 
-  // Weather: Thunder (desert storms are intense)
-  if (weather.thunder > 0) {
-    layers.push({
-      soundId: 'thunder_medium_close',
-      volume: Math.min(0.7, weather.thunder * 0.85),
-      loop: true,
-      category: 'weather',
-      fadeInDuration: 2,
-    });
+    for (const rule of biomeRules) {
+      const label = `${biome}: ${rule.soundId}`;
+
+      if (!soundExists(rule.soundId)) {
+        problems.push(`${biome}: unknown sound "${rule.soundId}"`);
+      }
+
+      if (rule.category === 'event' && !rule.event) {
+        problems.push(`${label}: event rule has no schedule`);
+      }
+      if (rule.category !== 'event' && rule.event) {
+        problems.push(`${label}: schedule on a ${rule.category} rule`);
+      }
+
+      if (typeof rule.volume === 'number' && (rule.volume < 0 || rule.volume > 1)) {
+        problems.push(`${label}: volume ${rule.volume} outside 0-1`);
+      }
+
+      if (typeof rule.pan === 'number' && (rule.pan < -1 || rule.pan > 1)) {
+        problems.push(`${label}: pan ${rule.pan} outside -1 to 1`);
+      }
+
+      const values: [string, RuleValue | undefined][] = [
+        ['volume', rule.volume],
+        ['fadeInDuration', rule.fadeInDuration],
+        ['ratePerMinute', rule.event?.ratePerMinute],
+      ];
+      for (const [name, value] of values) {
+        const missing = findMissingTimes(value, rule);
+        if (missing.length > 0) {
+          problems.push(`${label}: ${name} has no value for ${missing.join(', ')}`);
+        }
+      }
+    }
   }
 
-  return layers;
+  return problems;
 }
 
 /**
@@ -659,7 +532,7 @@ function getDesertSounds(
  * @returns Object with counts per category
  *
  * @example
- * getSoundLayerSummary(layers)  // → { base: 3, weather: 1, accent: 1 }
+ * getSoundLayerSummary(layers)  // → { base: 3, weather: 1, accent: 1, event: 1 }
  */
 export function getSoundLayerSummary(layers: SoundLayer[]): Record<string, number> {
   return layers.reduce(
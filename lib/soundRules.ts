@@ -0,0 +1,434 @@
+/**
+ * Declarative soundscape rules: which sounds play in each biome, when, and
+ * how loud, plus the reverb and weather muffling applied to the mix.
+ *
+ * Evaluated by `getSoundLayers` and `getSoundEffects` in `soundMapping.ts`.
+ * Each biome lists base layers (always present, defining the soundscape),
+ * weather layers (rain, thunder), time accents (dawn chorus, crickets, church
+ * bells) and events (randomized one-shots). Run `npm run validate-sounds`
+ * after editing; the build runs it too.
+ */
+
+import type { BiomeType } from './biomeDetector';
+import type { TimeOfDay } from './biomeUtils';
+import type { ReverbSpace } from '@/types/audio';
+import type { SoundRoll, SoundRule, SoundRuleSet, RuleValue } from './soundMapping';
+
+/**
+ * Chance of including each optional sound group in a soundscape.
+ * Kept low so birds, crickets and frogs don't become repetitive.
+ */
+export const SOUND_ROLL_PROBABILITY: Record<SoundRoll, number> = {
+  birds: 0.3,
+  crickets: 0.3,
+  frogs: 0.3,
+};
+
+/**
+ * Baseline cricket volume per time slot (biomes scale or offset it).
+ * Crickets ramp in from dusk, build through evening and peak at night.
+ */
+const CRICKET_VOLUME_RAMP: Partial<Record<TimeOfDay, number>> = {
+  dusk: 0.15,
+  evening: 0.25,
+  night: 0.35,
+};
+
+/**
+ * Fade-in for cricket layers per time slot.
+ * The long dusk fade makes crickets creep in as light fades.
+ */
+const CRICKET_FADE_RAMP: Partial<Record<TimeOfDay, number>> = {
+  dusk: 20,
+  evening: 8,
+  night: 8,
+};
+
+/**
+ * Thunder claps per minute in the most severe storms.
+ * Scaled by WeatherIntensity.thunder, so milder storms rumble less often.
+ */
+const THUNDER_MAX_RATE_PER_MINUTE = 3;
+
+/**
+ * Passing cars per minute by time of day (city).
+ * Traffic peaks during the day and thins out overnight.
+ */
+const CAR_PASS_RATE: Record<TimeOfDay, number> = {
+  dawn: 1.5,
+  day: 4,
+  dusk: 3,
+  evening: 2.5,
+  night: 0.75,
+};
+
+/**
+ * Occasional daytime bird calls per minute when the bird layer isn't playing.
+ * Keeps quiet days from being birdless without overusing birds.
+ */
+const BIRD_CALL_RATE = 0.75;
+
+/**
+ * Stereo position of the shoreline for close waves (beach, lake).
+ * Puts the water off to one side, as if walking along the shore.
+ */
+const SHORE_PAN = -0.35;
+
+/**
+ * Reverb space and wet level per biome.
+ */
+export const BIOME_REVERB: Record<BiomeType, { space: ReverbSpace; mix: number }> = {
+  city: { space: 'city', mix: 0.25 },
+  forest: { space: 'forest', mix: 0.3 },
+  field: { space: 'open', mix: 0.1 },
+  beach: { space: 'open', mix: 0.08 },
+  lake: { space: 'open', mix: 0.12 },
+  ocean: { space: 'open', mix: 0.06 },
+  desert: { space: 'open', mix: 0.12 },
+};
+
+/**
+ * Low-pass cutoff (Hz) with no muffling.
+ */
+export const OPEN_LOWPASS_FREQUENCY = 20000;
+
+/**
+ * Muffling at full fog density / heaviest snowfall (scaled down for lighter
+ * conditions). Damp, foggy air dulls distant highs; fresh snow absorbs highs
+ * and echoes alike.
+ */
+export const WEATHER_MUFFLING: Record<
+  'fog' | 'snow',
+  { lowpassFrequency: number; highShelfGain: number }
+> = {
+  fog: { lowpassFrequency: 3500, highShelfGain: -6 },
+  snow: { lowpassFrequency: 2000, highShelfGain: -10 },
+};
+
+/**
+ * Fraction of the reverb that heavy snow soaks up.
+ */
+export const SNOW_REVERB_DAMPING = 0.6;
+
+/**
+ * Rain layer while rain, drizzle or showers fall, louder with heavier rain.
+ */
+function rainRule(soundId: string, scale: number, max: number, fadeInDuration: number): SoundRule {
+  return {
+    soundId,
+    category: 'weather',
+    when: { rain: true },
+    volume: { input: 'rain', scale, max },
+    fadeInDuration,
+  };
+}
+
+/**
+ * Irregular thunder claps during storms, louder and more frequent as the
+ * storm intensifies.
+ */
+function thunderRule(soundId: string, scale: number, max: number): SoundRule {
+  return {
+    soundId,
+    category: 'event',
+    when: { thunder: true },
+    volume: { input: 'thunder', scale, max },
+    fadeInDuration: 2,
+    event: {
+      ratePerMinute: { input: 'thunder', scale: THUNDER_MAX_RATE_PER_MINUTE },
+      jitter: 0.8,
+      volumeRange: [0.35, 1],
+      minGap: 8,
+      panRange: [-0.6, 0.6],
+      excerptDuration: 20, // Recordings are long takes with several claps
+    },
+  };
+}
+
+/**
+ * Crickets ramping in from dusk to night (30% chance).
+ */
+function cricketRule(
+  soundId: string,
+  volume: { scale?: number; offset?: number } = {},
+  minFadeInDuration?: number
+): SoundRule {
+  return {
+    soundId,
+    category: 'accent',
+    when: { timeOfDay: ['dusk', 'evening', 'night'], crickets: true },
+    volume: { input: 'timeOfDay', values: CRICKET_VOLUME_RAMP, ...volume },
+    fadeInDuration: { input: 'timeOfDay', values: CRICKET_FADE_RAMP, min: minFadeInDuration },
+  };
+}
+
+/**
+ * Dawn chorus accent (always at dawn).
+ */
+function dawnChorusRule(soundId: string, volume: number): SoundRule {
+  return {
+    soundId,
+    category: 'accent',
+    when: { timeOfDay: ['dawn'] },
+    volume,
+    fadeInDuration: 10,
+  };
+}
+
+/**
+ * The occasional daytime bird call, on days without the bird layer.
+ */
+function birdCallRule(soundId: string, volume: number): SoundRule {
+  return {
+    soundId,
+    category: 'event',
+    when: { timeOfDay: ['day'], birds: false },
+    volume,
+    event: {
+      ratePerMinute: BIRD_CALL_RATE,
+      jitter: 1,
+      volumeRange: [0.4, 1],
+      minGap: 20,
+      panRange: [-0.8, 0.8], // Calls come from anywhere around
+      excerptDuration: 6,
+    },
+  };
+}
+
+/**
+ * Cars passing on either side of the street.
+ */
+function carsPassingRule(
+  soundId: string,
+  volume: number,
+  ratePerMinute: RuleValue,
+  schedule: { jitter: number; volumeRange: [number, number]; minGap: number }
+): SoundRule {
+  return {
+    soundId,
+    category: 'event',
+    volume,
+    fadeInDuration: 4,
+    event: {
+      ratePerMinute,
+      ...schedule,
+      panRange: [-0.9, 0.9],
+      excerptDuration: 8,
+    },
+  };
+}
+
+export const SOUNDSCAPE_RULES: SoundRuleSet = {
+  /**
+   * City: traffic ambience and urban chatter day and night, passing cars
+   * (busiest during the day), church bells at dawn and evening, and a thin
+   * dawn chorus from park birds.
+   */
+  city: [
+    { soundId: 'traffic_medium_close', category: 'base', volume: 0.5 },
+    { soundId: 'chatter-footsteps_medium', category: 'base', volume: 0.4, fadeInDuration: 3 },
+    // Distant traffic for depth
+    { soundId: 'traffic_medium_far', category: 'base', volume: 0.3, fadeInDuration: 4 },
+    // Cars passing in the distance (thinning out overnight)
+    carsPassingRule(
+      'cars-passing_low_far',
+      0.35,
+      { input: 'timeOfDay', values: CAR_PASS_RATE },
+      { jitter: 0.7, volumeRange: [0.5, 1], minGap: 3 }
+    ),
+    // The odd car passing close by while streets are busy
+    {
+      ...carsPassingRule(
+        'cars-passing_medium_close',
+        0.3,
+        { input: 'timeOfDay', values: CAR_PASS_RATE, scale: 0.25 },
+        { jitter: 0.9, volumeRange: [0.6, 1], minGap: 10 }
+      ),
+      when: { timeOfDay: ['day', 'dusk'] },
+    },
+    rainRule('rain-wind-city-traffic_medium_far', 0.9, 0.7, 5),
+    dawnChorusRule('birds_far', 0.15),
+    {
+      soundId: 'church-bells_medium_far',
+      category: 'accent',
+      when: { timeOfDay: ['dawn', 'evening'] },
+      volume: 0.25,
+      fadeInDuration: 2,
+      startDelay: 10, // Delay to avoid overwhelming initial soundscape
+    },
+  ],
+
+  /**
+   * Forest: birds (30% chance, full chorus at dawn), wind through the trees,
+   * rain through the canopy, distant thunder, crickets after dusk.
+   */
+  forest: [
+    {
+      soundId: 'birds-forest_light_far',
+      category: 'base',
+      when: { timeOfDay: ['day'], birds: true },
+      volume: 0.3,
+    },
+    birdCallRule('bird-calls-forest_light_far', 0.3),
+    dawnChorusRule('birds-forest_light_far', 0.5),
+    {
+      soundId: 'wind_forest_medium',
+      category: 'base',
+      volume: { input: 'wind', scale: 0.7, min: 0.3 }, // Never silent, scale with wind
+      pan: 'wind',
+      fadeInDuration: 4,
+    },
+    rainRule('rain_medium', 0.8, 0.65, 6),
+    thunderRule('thunder_light_far', 0.6, 0.5),
+    cricketRule('crickets_far'),
+  ],
+
+  /**
+   * Field: distant birds (30% chance, always at dawn), prominent wind through
+   * grass, light rain on vegetation, distant thunder, summer crickets.
+   */
+  field: [
+    {
+      soundId: 'birds_far',
+      category: 'base',
+      when: { timeOfDay: ['day'], birds: true },
+      volume: 0.05,
+    },
+    birdCallRule('bird-calls_far', 0.1),
+    dawnChorusRule('birds_far', 0.2),
+    // Wind is more prominent in open fields
+    {
+      soundId: 'wind_grass_strong',
+      category: 'base',
+      when: { windSpeedKph: { max: 20 } },
+      volume: { input: 'wind', scale: 0.9, min: 0.4 },
+      pan: 'wind',
+      fadeInDuration: 3,
+    },
+    {
+      soundId: 'wind_field_strong',
+      category: 'base',
+      when: { windSpeedKph: { min: 20 } },
+      volume: { input: 'wind', scale: 0.9, min: 0.4 },
+      pan: 'wind',
+      fadeInDuration: 3,
+    },
+    rainRule('rain_light', 0.75, 0.6, 5),
+    thunderRule('thunder_light_far', 0.55, 0.45),
+    // Summer crickets carry further over open ground
+    cricketRule('crickets-summer_far', { offset: 0.025 }, 10),
+  ],
+
+  /**
+   * Beach: close waves off to one side, coastal wind (with seabirds at dawn
+   * and on 30% of days), rain on the sand, thunder over the ocean.
+   */
+  beach: [
+    { soundId: 'waves_medium_close', category: 'base', volume: 0.65, pan: SHORE_PAN },
+    {
+      soundId: 'wind_coastal_birds',
+      category: 'base',
+      when: [{ timeOfDay: ['day'], birds: true }, { timeOfDay: ['dawn'] }],
+      volume: { input: 'wind', scale: 0.35, min: 0.2 },
+      pan: 'wind',
+      fadeInDuration: 4,
+    },
+    {
+      soundId: 'wind_coastal_medium_far',
+      category: 'base',
+      when: [{ timeOfDay: ['day'], birds: false }, { timeOfDay: ['dusk', 'evening', 'night'] }],
+      volume: { input: 'wind', scale: 0.55, min: 0.35 },
+      pan: 'wind',
+      fadeInDuration: 4,
+    },
+    rainRule('rain_medium', 0.7, 0.55, 5),
+    thunderRule('thunder_medium_close', 0.75, 0.6),
+  ],
+
+  /**
+   * Lake: small waves lapping, gentle sheltered wind, birds (30% chance,
+   * always at dawn), rain on the water, distant thunder, crickets after dusk
+   * and frogs at night.
+   */
+  lake: [
+    // Lapping water is closer to center than surf
+    { soundId: 'waves_small_close', category: 'base', volume: 0.5, pan: SHORE_PAN * 0.6 },
+    {
+      soundId: 'wind_autumn', // Softer wind sound
+      category: 'base',
+      volume: { input: 'wind', scale: 0.5, min: 0.25 },
+      pan: 'wind',
+      fadeInDuration: 5,
+    },
+    {
+      soundId: 'birds_far',
+      category: 'base',
+      when: { timeOfDay: ['day'], birds: true },
+      volume: 0.2,
+      fadeInDuration: 3,
+    },
+    dawnChorusRule('birds_far', 0.35),
+    rainRule('rain_light', 0.75, 0.6, 6),
+    thunderRule('thunder_light_far', 0.6, 0.5),
+    // Sit under the water sounds
+    cricketRule('crickets_far', { scale: 0.8 }),
+    {
+      soundId: 'frogs_close',
+      category: 'accent',
+      when: { timeOfDay: ['night'], frogs: true },
+      volume: 0.35,
+      fadeInDuration: 12,
+    },
+  ],
+
+  /**
+   * Ocean: distant waves, steady coastal wind (seabirds carried on it at
+   * dawn), rain, thunder over the water.
+   */
+  ocean: [
+    { soundId: 'waves_medium_far', category: 'base', volume: 0.6 },
+    {
+      soundId: 'wind_coastal_birds',
+      category: 'base',
+      when: { timeOfDay: ['dawn'] },
+      volume: { input: 'wind', scale: 0.7, min: 0.4 },
+      pan: 'wind',
+      fadeInDuration: 4,
+    },
+    {
+      soundId: 'wind_coastal_medium_far',
+      category: 'base',
+      when: { timeOfDay: ['day', 'dusk', 'evening', 'night'] },
+      volume: { input: 'wind', scale: 0.7, min: 0.4 },
+      pan: 'wind',
+      fadeInDuration: 4,
+    },
+    rainRule('rain_medium', 0.75, 0.6, 5),
+    thunderRule('thunder_medium_close', 0.8, 0.65),
+  ],
+
+  /**
+   * Desert: strong wind and little else. Sparse birds (30% chance, brief
+   * dawn chorus), faint crickets after dusk, rare rain and intense storms.
+   */
+  desert: [
+    {
+      soundId: 'wind_field_strong',
+      category: 'base',
+      volume: { input: 'wind', scale: 0.8, min: 0.35 },
+      pan: 'wind',
+      fadeInDuration: 3,
+    },
+    {
+      soundId: 'birds_far',
+      category: 'base',
+      when: { timeOfDay: ['day'], birds: true },
+      volume: 0.1,
+      fadeInDuration: 5,
+    },
+    dawnChorusRule('birds_far', 0.15),
+    cricketRule('crickets_far', { scale: 0.5 }),
+    rainRule('rain_light', 0.65, 0.5, 6),
+    thunderRule('thunder_medium_close', 0.85, 0.7),
+  ],
+};
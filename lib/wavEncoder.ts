@@ -0,0 +1,94 @@
+/**
+ * 16-bit PCM WAV encoding.
+ *
+ * Split into a header and independently encoded sample chunks, so long
+ * renders can be encoded piece by piece and joined in a Blob without ever
+ * holding the whole recording as floats.
+ */
+
+const BYTES_PER_SAMPLE = 2;
+const WAV_HEADER_BYTES = 44;
+
+function writeString(view: DataView, offset: number, value: string): void {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+}
+
+/**
+ * Builds the RIFF/WAVE header for 16-bit PCM audio.
+ *
+ * @param frameCount - Total sample frames (samples per channel) that will follow
+ * @param numberOfChannels - Channel count
+ * @param sampleRate - Sample rate in Hz
+ * @returns 44-byte header
+ * @throws Error if the data would exceed the 4GB WAV size limit
+ */
+export function encodeWavHeader(
+  frameCount: number,
+  numberOfChannels: number,
+  sampleRate: number
+): ArrayBuffer {
+  const blockAlign = numberOfChannels * BYTES_PER_SAMPLE;
+  const dataBytes = frameCount * blockAlign;
+
+  if (dataBytes + WAV_HEADER_BYTES - 8 > 0xffffffff) {
+    throw new Error('Recording too long for a WAV file');
+  }
+
+  const header = new ArrayBuffer(WAV_HEADER_BYTES);
+  const view = new DataView(header);
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, dataBytes + WAV_HEADER_BYTES - 8, true);
+  writeString(view, 8, 'WAVE');
+
+  // fmt chunk: PCM, interleaved 16-bit samples
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, BYTES_PER_SAMPLE * 8, true);
+
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  return header;
+}
+
+/**
+ * Encodes part of a rendered buffer as interleaved 16-bit PCM samples.
+ *
+ * @param buffer - Rendered audio
+ * @param startFrame - First frame to encode (default: 0)
+ * @param endFrame - Frame to stop before (default: end of buffer)
+ * @returns Interleaved samples, ready to append after the header
+ *
+ * @example
+ * const blob = new Blob([encodeWavHeader(rendered.length, 2, 44100), encodePcm16(rendered)], {
+ *   type: 'audio/wav',
+ * });
+ */
+export function encodePcm16(
+  buffer: AudioBuffer,
+  startFrame = 0,
+  endFrame = buffer.length
+): Int16Array<ArrayBuffer> {
+  const { numberOfChannels } = buffer;
+  const frameCount = Math.max(0, endFrame - startFrame);
+  const samples = new Int16Array(frameCount * numberOfChannels);
+
+  for (let channel = 0; channel < numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let frame = 0; frame < frameCount; frame++) {
+      const sample = Math.max(-1, Math.min(1, data[startFrame + frame]));
+      samples[frame * numberOfChannels + channel] =
+        sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+    }
+  }
+
+  return samples;
+}
@@ -1,7 +1,19 @@
-import type { WeatherData } from "@/types/weather";
+import type { WeatherData, GeocodingResult, GeocodingResponse } from "@/types/weather";
+import type { LocationTarget } from "@/lib/locationUrl";
 
-export async function getWeather(query: string): Promise<WeatherData> {
-  const response = await fetch(`/api/weather?q=${encodeURIComponent(query)}`);
+const DEFAULT_REFRESH_MINUTES = 10;
+
+/**
+ * How often the shown location's weather is refetched (in milliseconds),
+ * set with NEXT_PUBLIC_WEATHER_REFRESH_MINUTES. 0 turns refreshing off.
+ */
+export const WEATHER_REFRESH_INTERVAL = (() => {
+  const minutes = Number(process.env.NEXT_PUBLIC_WEATHER_REFRESH_MINUTES || DEFAULT_REFRESH_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes * 60 * 1000 : 0;
+})();
+
+async function fetchWeather(url: string): Promise<WeatherData> {
+  const response = await fetch(url);
 
   if (!response.ok) {
     const error = await response.json();
@@ -10,3 +22,39 @@ export async function getWeather(query: string): Promise<WeatherData> {
 
   return response.json();
 }
+
+export async function getWeather(query: string): Promise<WeatherData> {
+  return fetchWeather(`/api/weather?q=${encodeURIComponent(query)}`);
+}
+
+// Fetch weather for a place picked from search suggestions (no re-geocoding)
+export async function getWeatherForLocation(location: GeocodingResult): Promise<WeatherData> {
+  return fetchWeather(`/api/weather?id=${location.id}`);
+}
+
+// Fetch weather for raw coordinates; the route reverse-geocodes a display name
+export async function getWeatherByCoordinates(lat: number, lon: number): Promise<WeatherData> {
+  return fetchWeather(`/api/weather?lat=${lat}&lon=${lon}`);
+}
+
+// Fetch weather for a location parsed from the URL
+export async function getWeatherForTarget(target: LocationTarget): Promise<WeatherData> {
+  return target.type === "coordinates"
+    ? getWeatherByCoordinates(target.coordinates.lat, target.coordinates.lon)
+    : getWeather(target.query);
+}
+
+export async function searchLocations(
+  query: string,
+  signal?: AbortSignal
+): Promise<GeocodingResult[]> {
+  const response = await fetch(`/api/geocode?q=${encodeURIComponent(query)}`, { signal });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to search locations");
+  }
+
+  const data: GeocodingResponse = await response.json();
+  return data.results ?? [];
+}
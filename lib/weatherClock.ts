@@ -0,0 +1,83 @@
+import type { HourlyForecast, WeatherData } from "@/types/weather";
+
+/**
+ * Advances a location's local timestamp (ISO 8601 without offset, as in
+ * `WeatherData.location.localtime`).
+ *
+ * Calculated in UTC, so the browser's own time zone and DST changes don't
+ * shift the result.
+ *
+ * @param localtime - Local timestamp, e.g. "2025-10-31T19:45"
+ * @param milliseconds - Time to add
+ * @returns Advanced timestamp with seconds (e.g. "2025-10-31T20:15:00"), or the input if it can't be parsed
+ *
+ * @example
+ * advanceLocalTime("2025-10-31T23:45", 30 * 60 * 1000) // "2025-11-01T00:15:00"
+ */
+export function advanceLocalTime(localtime: string, milliseconds: number): string {
+  const time = Date.parse(`${localtime}Z`);
+  if (Number.isNaN(time)) return localtime;
+
+  return new Date(time + milliseconds).toISOString().slice(0, 19);
+}
+
+/**
+ * Moves a weather report's local clock forward by the real time elapsed
+ * since it was fetched, so time of day keeps up between refreshes.
+ *
+ * Sunrise/sunset follow the clock into the next day using the daily forecast.
+ * Conditions are left as fetched.
+ *
+ * @param weatherData - Weather as fetched
+ * @param elapsed - Milliseconds since it was fetched
+ * @returns Weather with the current local time (and that day's sun times)
+ *
+ * @example
+ * const now = advanceWeatherClock(fetched, Date.now() - fetchedAt);
+ * getTimeOfDay(now.location.localtime, now.sun); // "evening" once the sun has set
+ */
+export function advanceWeatherClock(weatherData: WeatherData, elapsed: number): WeatherData {
+  const localtime = advanceLocalTime(weatherData.location.localtime, elapsed);
+  const today = weatherData.forecast.daily.find((day) => day.date === localtime.slice(0, 10));
+
+  return {
+    ...weatherData,
+    location: { ...weatherData.location, localtime },
+    sun: today?.sun ?? weatherData.sun,
+  };
+}
+
+/**
+ * Builds the weather report for an hour of the forecast, as if it were the
+ * current conditions, so it can drive the soundscape and background.
+ *
+ * Forecasts have no feels-like temperature, so the air temperature stands in.
+ *
+ * @param weatherData - Weather as fetched
+ * @param hour - Entry from `weatherData.forecast.hourly`
+ * @returns Weather at that hour (and that day's sun times)
+ *
+ * @example
+ * const tonight = getForecastWeather(weatherData, weatherData.forecast.hourly[6]);
+ * getWeatherImagePath(tonight); // the image for six hours from now
+ */
+export function getForecastWeather(weatherData: WeatherData, hour: HourlyForecast): WeatherData {
+  const day = weatherData.forecast.daily.find((entry) => entry.date === hour.time.slice(0, 10));
+
+  return {
+    ...weatherData,
+    location: { ...weatherData.location, localtime: hour.time },
+    current: {
+      temp_f: hour.temp_f,
+      temp_c: hour.temp_c,
+      condition: hour.condition,
+      wind_mph: hour.wind_mph,
+      wind_kph: hour.wind_kph,
+      wind_dir: hour.wind_dir,
+      humidity: hour.humidity,
+      feelslike_f: hour.temp_f,
+      feelslike_c: hour.temp_c,
+    },
+    sun: day?.sun ?? weatherData.sun,
+  };
+}
@@ -0,0 +1,241 @@
+import { promises as fs } from "node:fs";
+import { basename, extname, join, relative } from "node:path";
+import { fileURLToPath } from "node:url";
+import decodeAudio from "audio-decode";
+import type { SoundAnalysis, SoundManifest } from "../types/audio";
+
+const AUDIO_EXTENSIONS = new Set([".ogg", ".mp3", ".wav"]);
+
+// Every sound is normalized to this integrated loudness (EBU R128 broadcast level;
+// leaves headroom for several layers playing at once)
+const TARGET_LOUDNESS_LUFS = -23;
+
+// Normalization never pushes a file's sample peak above this
+const MAX_PEAK_DBFS = -1;
+
+// Limits on the correction, so near-silent or broken files aren't boosted into noise
+const MAX_BOOST_DB = 18;
+const MAX_CUT_DB = -24;
+
+// ITU-R BS.1770-4 gating: 400ms blocks with 75% overlap
+const BLOCK_SECONDS = 0.4;
+const STEPS_PER_BLOCK = 4;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+const __dirname = fileURLToPath(new URL(".", import.meta.url));
+const projectRoot = join(__dirname, "..");
+const audioRoot = join(projectRoot, "public", "audio");
+const outputPath = join(projectRoot, "lib", "data", "soundManifest.json");
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * K-weighting filter stages (high shelf + high pass) for any sample rate,
+ * derived the same way as libebur128 so results match at 48kHz.
+ */
+function getKWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  // Stage 1: head-related high shelf (+4dB above ~1.7kHz)
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = 10 ** (3.999843853973347 / 20);
+  const Vb = Vh ** 0.4996667741545416;
+  let a0 = 1 + K / Q + K * K;
+
+  const shelf: Biquad = {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  // Stage 2: RLB high pass (~38Hz)
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  return [shelf, highPass];
+}
+
+/**
+ * K-weights a channel and sums the squared samples per gating step
+ * (a quarter block), without keeping the filtered signal in memory.
+ */
+function getStepEnergies(samples: Float32Array, sampleRate: number, stepLength: number): Float64Array {
+  const [shelf, highPass] = getKWeightingFilters(sampleRate);
+  const energies = new Float64Array(Math.floor(samples.length / stepLength));
+
+  // Direct form I filter state
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  let u1 = 0, u2 = 0, z1 = 0, z2 = 0;
+
+  for (let i = 0; i < energies.length * stepLength; i++) {
+    const x = samples[i];
+    const y = shelf.b0 * x + shelf.b1 * x1 + shelf.b2 * x2 - shelf.a1 * y1 - shelf.a2 * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+
+    const z = highPass.b0 * y + highPass.b1 * u1 + highPass.b2 * u2 - highPass.a1 * z1 - highPass.a2 * z2;
+    u2 = u1;
+    u1 = y;
+    z2 = z1;
+    z1 = z;
+
+    energies[Math.floor(i / stepLength)] += z * z;
+  }
+
+  return energies;
+}
+
+function energyToLoudness(energy: number): number {
+  return -0.691 + 10 * Math.log10(energy);
+}
+
+/**
+ * Integrated loudness (ITU-R BS.1770-4) of a decoded file.
+ *
+ * @returns Loudness in LUFS, or -Infinity for silence / files shorter than one block
+ */
+function measureIntegratedLoudness(buffer: AudioBuffer): number {
+  const stepLength = Math.round((buffer.sampleRate * BLOCK_SECONDS) / STEPS_PER_BLOCK);
+  const blockLength = stepLength * STEPS_PER_BLOCK;
+
+  const channelSteps = Array.from({ length: buffer.numberOfChannels }, (_, channel) =>
+    getStepEnergies(buffer.getChannelData(channel), buffer.sampleRate, stepLength)
+  );
+
+  // Mean square per block, summed over channels (L/R/C weight 1, surrounds 1.41)
+  const stepCount = channelSteps[0]?.length ?? 0;
+  const blockEnergies: number[] = [];
+  for (let start = 0; start + STEPS_PER_BLOCK <= stepCount; start++) {
+    let energy = 0;
+    channelSteps.forEach((steps, channel) => {
+      const weight = channel >= 3 ? 1.41 : 1;
+      let sum = 0;
+      for (let step = start; step < start + STEPS_PER_BLOCK; step++) sum += steps[step];
+      energy += (weight * sum) / blockLength;
+    });
+    blockEnergies.push(energy);
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const aboveAbsolute = blockEnergies.filter(
+    (energy) => energyToLoudness(energy) > ABSOLUTE_GATE_LUFS
+  );
+  if (aboveAbsolute.length === 0) return -Infinity;
+
+  const relativeGate = energyToLoudness(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter((energy) => energyToLoudness(energy) > relativeGate);
+
+  return energyToLoudness(mean(gated));
+}
+
+/**
+ * Highest absolute sample value across channels, in dBFS.
+ */
+function measureSamplePeak(buffer: AudioBuffer): number {
+  let peak = 0;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    for (const sample of buffer.getChannelData(channel)) {
+      const level = Math.abs(sample);
+      if (level > peak) peak = level;
+    }
+  }
+  return 20 * Math.log10(peak);
+}
+
+/**
+ * Gain that brings a file to the target loudness without pushing its peak
+ * past MAX_PEAK_DBFS.
+ *
+ * @returns Linear gain (1 for silent files)
+ */
+function getNormalizationGain(loudness: number, peak: number): number {
+  if (!Number.isFinite(loudness) || !Number.isFinite(peak)) return 1;
+
+  const gainDb = Math.min(TARGET_LOUDNESS_LUFS - loudness, MAX_PEAK_DBFS - peak);
+  const clampedDb = Math.max(MAX_CUT_DB, Math.min(MAX_BOOST_DB, gainDb));
+  return 10 ** (clampedDb / 20);
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+async function findAudioFiles(directory: string): Promise<string[]> {
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map((entry) => {
+      const path = join(directory, entry.name);
+      if (entry.isDirectory()) return findAudioFiles(path);
+      return AUDIO_EXTENSIONS.has(extname(entry.name).toLowerCase()) ? [path] : [];
+    })
+  );
+  return files.flat().sort();
+}
+
+async function analyzeFile(path: string): Promise<SoundAnalysis> {
+  const buffer = await decodeAudio(await fs.readFile(path));
+  const loudness = measureIntegratedLoudness(buffer);
+  const peak = measureSamplePeak(buffer);
+
+  return {
+    path: relative(audioRoot, path).split("\\").join("/"),
+    duration: round(buffer.duration, 2),
+    // JSON has no -Infinity; silent files are recorded as null
+    loudness: Number.isFinite(loudness) ? round(loudness, 1) : null,
+    peak: Number.isFinite(peak) ? round(peak, 1) : null,
+    gain: round(getNormalizationGain(loudness, peak), 3),
+  };
+}
+
+async function generateSoundManifest() {
+  const files = await findAudioFiles(audioRoot);
+  const sounds: Record<string, SoundAnalysis> = {};
+
+  // One file at a time: decoded ambience loops are large
+  for (const file of files) {
+    const soundId = basename(file, extname(file));
+    const analysis = await analyzeFile(file);
+    sounds[soundId] = analysis;
+
+    console.log(
+      `${soundId}: ${analysis.loudness ?? "silent"} LUFS, peak ${analysis.peak ?? "-"} dBFS → ×${analysis.gain}`
+    );
+  }
+
+  const manifest: SoundManifest = {
+    targetLoudness: TARGET_LOUDNESS_LUFS,
+    maxPeak: MAX_PEAK_DBFS,
+    sounds,
+  };
+
+  await fs.mkdir(join(projectRoot, "lib", "data"), { recursive: true });
+  await fs.writeFile(outputPath, `${JSON.stringify(manifest, null, 2)}\n`, "utf8");
+
+  console.log(`Sound manifest (${files.length} files) written to ${relative(projectRoot, outputPath)}`);
+}
+
+generateSoundManifest().catch((error) => {
+  console.error("Failed to generate sound manifest:", error);
+  process.exit(1);
+});
@@ -2,8 +2,13 @@ import { promises as fs } from "node:fs";
 import { join, relative } from "node:path";
 import { fileURLToPath } from "node:url";
 import type { BiomeType } from "../lib/biomeDetector";
-
-type TimeSlot = "day" | "evening" | "night";
+import type { WeatherCondition } from "../lib/biomeUtils";
+import type {
+  BiomeImage,
+  BiomeImageManifest,
+  BiomeImageTags,
+  TimeSlot,
+} from "../lib/imageMapping";
 
 const BIOME_TYPES: BiomeType[] = [
   "ocean",
@@ -15,67 +20,200 @@ const BIOME_TYPES: BiomeType[] = [
   "city",
 ];
 
-const TIME_SLOTS: TimeSlot[] = ["day", "evening", "night"];
+const TIME_SLOTS: TimeSlot[] = ["dawn", "day", "dusk", "evening", "night"];
+
+const WEATHER_CONDITIONS: WeatherCondition[] = ["clear", "cloudy", "rain", "snow", "fog", "storm"];
+
+// Header bytes read per image; enough to reach the SOF marker past typical EXIF blocks
+const HEADER_READ_BYTES = 256 * 1024;
+
+// Optional per-biome sidecar mapping filenames to weather/season tags
+const TAGS_FILENAME = "tags.json";
 
 const __dirname = fileURLToPath(new URL(".", import.meta.url));
 const projectRoot = join(__dirname, "..");
 const imagesRoot = join(projectRoot, "public", "images", "backgrounds");
-const outputPath = join(projectRoot, "lib", "data", "biomeImageCounts.json");
+const outputPath = join(projectRoot, "lib", "data", "biomeImageManifest.json");
 
 async function ensureDirectory(path: string) {
   await fs.mkdir(path, { recursive: true });
 }
 
-async function getImageCountsForBiome(biome: BiomeType) {
+/**
+ * Reads pixel dimensions from a JPEG, PNG or WebP header.
+ * Returns null when the format is not recognized.
+ */
+function readImageDimensions(buffer: Buffer): { width: number; height: number } | null {
+  // PNG: fixed IHDR position
+  if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+
+  // WebP: RIFF container with VP8 / VP8L / VP8X chunk
+  if (
+    buffer.length >= 30 &&
+    buffer.toString("ascii", 0, 4) === "RIFF" &&
+    buffer.toString("ascii", 8, 12) === "WEBP"
+  ) {
+    const chunk = buffer.toString("ascii", 12, 16);
+    if (chunk === "VP8 ") {
+      return {
+        width: buffer.readUInt16LE(26) & 0x3fff,
+        height: buffer.readUInt16LE(28) & 0x3fff,
+      };
+    }
+    if (chunk === "VP8L") {
+      const bits = buffer.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === "VP8X") {
+      return {
+        width: buffer.readUIntLE(24, 3) + 1,
+        height: buffer.readUIntLE(27, 3) + 1,
+      };
+    }
+    return null;
+  }
+
+  // JPEG: walk segments until a start-of-frame marker
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+      if (buffer[offset] !== 0xff) {
+        offset += 1;
+        continue;
+      }
+
+      const marker = buffer[offset + 1];
+      const isStartOfFrame =
+        marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+      if (isStartOfFrame) {
+        return {
+          height: buffer.readUInt16BE(offset + 5),
+          width: buffer.readUInt16BE(offset + 7),
+        };
+      }
+
+      offset += 2 + buffer.readUInt16BE(offset + 2);
+    }
+  }
+
+  return null;
+}
+
+async function readImageHeader(path: string): Promise<Buffer> {
+  const handle = await fs.open(path, "r");
+  try {
+    const buffer = Buffer.alloc(HEADER_READ_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, HEADER_READ_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+async function readBiomeTags(biomeDir: string): Promise<Record<string, BiomeImageTags>> {
+  try {
+    const raw = await fs.readFile(join(biomeDir, TAGS_FILENAME), "utf8");
+    return JSON.parse(raw) as Record<string, BiomeImageTags>;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+    // Missing sidecar means no images are tagged.
+    return {};
+  }
+}
+
+async function getImagesForBiome(biome: BiomeType) {
   const biomeDir = join(imagesRoot, biome);
-  const counts: Record<TimeSlot, number> = {
-    day: 0,
-    evening: 0,
-    night: 0,
+  const found: Record<TimeSlot, { index: number; image: BiomeImage }[]> = {
+    dawn: [],
+    day: [],
+    dusk: [],
+    evening: [],
+    night: [],
   };
 
   try {
     const entries = await fs.readdir(biomeDir, { withFileTypes: true });
+    const tags = await readBiomeTags(biomeDir);
 
     for (const entry of entries) {
       if (!entry.isFile()) continue;
       const match = entry.name.match(
-        new RegExp(`^${biome}-(day|evening|night)-\\d+\\.(jpg|jpeg|png|webp)$`, "i"),
+        new RegExp(
+          `^${biome}-(${TIME_SLOTS.join("|")})(?:-(${WEATHER_CONDITIONS.join("|")}))?-(\\d+)\\.(jpg|jpeg|png|webp)$`,
+          "i",
+        ),
       );
 
       if (!match) continue;
 
+      const header = await readImageHeader(join(biomeDir, entry.name));
+      const dimensions = readImageDimensions(header);
+
+      if (!dimensions) {
+        console.warn(`Skipping ${biome}/${entry.name}: unreadable image header`);
+        continue;
+      }
+
       const slot = match[1].toLowerCase() as TimeSlot;
-      counts[slot] += 1;
+      const image: BiomeImage = {
+        path: `/images/backgrounds/${biome}/${entry.name}`,
+        width: dimensions.width,
+        height: dimensions.height,
+        extension: match[4].toLowerCase(),
+      };
+
+      const imageTags: BiomeImageTags = { ...tags[entry.name] };
+      if (match[2]) {
+        const weather = match[2].toLowerCase() as WeatherCondition;
+        imageTags.weather = Array.from(new Set([weather, ...(imageTags.weather ?? [])]));
+      }
+
+      if (imageTags.weather?.length || imageTags.season?.length) {
+        image.tags = imageTags;
+      }
+
+      found[slot].push({ index: Number(match[3]), image });
     }
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
       throw error;
     }
-    // Missing directory is treated as zero counts.
+    // Missing directory is treated as no images.
+  }
+
+  // Stable numeric order so the manifest diff stays readable
+  const images = {} as Record<TimeSlot, BiomeImage[]>;
+  for (const slot of TIME_SLOTS) {
+    images[slot] = found[slot].sort((a, b) => a.index - b.index).map(({ image }) => image);
   }
 
-  return counts;
+  return images;
 }
 
-async function generateImageCounts() {
-  const result: Record<BiomeType, Record<TimeSlot, number>> = {} as Record<
-    BiomeType,
-    Record<TimeSlot, number>
-  >;
+async function generateImageManifest() {
+  const result = {} as BiomeImageManifest;
 
   for (const biome of BIOME_TYPES) {
-    result[biome] = await getImageCountsForBiome(biome);
+    result[biome] = await getImagesForBiome(biome);
   }
 
   await ensureDirectory(join(projectRoot, "lib", "data"));
   await fs.writeFile(outputPath, `${JSON.stringify(result, null, 2)}\n`, "utf8");
 
+  const total = BIOME_TYPES.reduce(
+    (sum, biome) => sum + TIME_SLOTS.reduce((n, slot) => n + result[biome][slot].length, 0),
+    0,
+  );
   const relativePath = relative(projectRoot, outputPath);
-  console.log(`Biome image counts written to ${relativePath}`);
+  console.log(`Biome image manifest (${total} images) written to ${relativePath}`);
 }
 
-generateImageCounts().catch((error) => {
-  console.error("Failed to generate biome image counts:", error);
+generateImageManifest().catch((error) => {
+  console.error("Failed to generate biome image manifest:", error);
   process.exit(1);
 });
@@ -0,0 +1,17 @@
+import { validateSoundRules } from "../lib/soundMapping";
+import { SOUNDSCAPE_RULES } from "../lib/soundRules";
+
+function main() {
+  const problems = validateSoundRules(SOUNDSCAPE_RULES);
+
+  if (problems.length > 0) {
+    console.error(`Found ${problems.length} problem(s) in the soundscape rules:`);
+    problems.forEach((problem) => console.error(`  - ${problem}`));
+    process.exit(1);
+  }
+
+  const ruleCount = Object.values(SOUNDSCAPE_RULES).reduce((sum, rules) => sum + rules.length, 0);
+  console.log(`Soundscape rules OK (${ruleCount} rules across ${Object.keys(SOUNDSCAPE_RULES).length} biomes)`);
+}
+
+main();
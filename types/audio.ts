@@ -11,8 +11,58 @@
  * - base: Core ambient layer (always playing, defines the soundscape)
  * - weather: Conditional layers triggered by weather conditions
  * - accent: Time-of-day or situational elements (crickets, church bells, etc.)
+ * - event: Randomized one-shots at irregular intervals (thunder claps, passing cars)
  */
-export type SoundCategory = 'base' | 'weather' | 'accent';
+export type SoundCategory = 'base' | 'weather' | 'accent' | 'event';
+
+/**
+ * Timing and level parameters for a stream of one-shot events.
+ *
+ * Events are scheduled on the AudioContext clock; each one starts a fresh
+ * pass of the sound (or a random excerpt of it) at a random volume.
+ */
+export interface EventSchedule {
+  /** Average number of events per minute */
+  ratePerMinute: number;
+
+  /**
+   * Randomness of the spacing between events (0.0 to 1.0).
+   * 0 = evenly spaced, 1 = fully random (Poisson); default 0.5
+   */
+  jitter?: number;
+
+  /** Per-event volume range [min, max], applied under the track volume (0.0 to 1.0) */
+  volumeRange: [number, number];
+
+  /** Minimum seconds between the starts of consecutive events */
+  minGap?: number;
+
+  /** Place each event at a random stereo position in [min, max] (-1 left to 1 right) */
+  panRange?: [number, number];
+
+  /**
+   * Play a random excerpt of this many seconds instead of the whole file.
+   * For long recordings containing several events (e.g. a string of passing cars).
+   */
+  excerptDuration?: number;
+}
+
+/**
+ * Loop region for a looping sound.
+ *
+ * The crossfade is baked into a dedicated loop buffer (the end of the region
+ * blended into its start), which then loops natively on the AudioContext clock.
+ */
+export interface LoopPoints {
+  /** Loop region start in seconds; audio before it is skipped (default: 0) */
+  start?: number;
+
+  /** Loop region end in seconds (default: end of file) */
+  end?: number;
+
+  /** Crossfade across the loop seam in seconds (default: based on region length) */
+  crossfade?: number;
+}
 
 /**
  * Playback options for starting a sound track.
@@ -32,6 +82,15 @@ export interface PlayOptions {
 
   /** Sound category for organizational purposes */
   category?: SoundCategory;
+
+  /** Optional loop region override (merged over the sound's registered loop points) */
+  loopPoints?: LoopPoints;
+
+  /** Stereo position (-1.0 = left, 0 = center, 1.0 = right; default 0) */
+  pan?: number;
+
+  /** Play as a stream of one-shot events instead of a continuous track */
+  event?: EventSchedule;
 }
 
 /**
@@ -42,12 +101,18 @@ export interface AudioTrack {
   /** Unique identifier for this sound */
   soundId: string;
 
-  /** Web Audio API buffer source node */
-  source: AudioBufferSourceNode;
+  /** Web Audio API buffer source node (null for event streams, see `events`) */
+  source: AudioBufferSourceNode | null;
 
   /** Individual gain node for this track */
   gainNode: GainNode;
 
+  /** Loudness normalization gain for this file (between the gain and panner nodes) */
+  normalizationNode: GainNode;
+
+  /** Stereo placement after normalization (feeds the master gain) */
+  pannerNode: StereoPannerNode;
+
   /** Current volume level (0.0 to 1.0) */
   volume: number;
 
@@ -65,6 +130,30 @@ export interface AudioTrack {
 
   /** Whether this track is currently fading out */
   isFadingOut: boolean;
+
+  /** Scheduling state when the track is a stream of one-shot events */
+  events?: EventStreamState;
+}
+
+/**
+ * Scheduling state for an event stream.
+ * Internal to AudioManager.
+ */
+export interface EventStreamState {
+  /** Current timing/level parameters */
+  schedule: EventSchedule;
+
+  /** Decoded audio played for each event */
+  buffer: AudioBuffer;
+
+  /** AudioContext time of the next event to schedule */
+  nextTime: number;
+
+  /** Scheduled or playing event sources */
+  sources: Set<AudioBufferSourceNode>;
+
+  /** Whether the stream has been stopped (no further events are scheduled) */
+  stopped: boolean;
 }
 
 /**
@@ -89,6 +178,29 @@ export interface SoundLayer {
 
   /** Optional delay before starting in seconds */
   startDelay?: number;
+
+  /** Optional loop region override for looping layers */
+  loopPoints?: LoopPoints;
+
+  /** Optional stereo position (-1.0 = left, 0 = center, 1.0 = right) */
+  pan?: number;
+
+  /** Event timing for 'event' layers (played as randomized one-shots, loop: false) */
+  event?: EventSchedule;
+}
+
+/**
+ * User mixer settings for one sound, kept across soundscape updates.
+ */
+export interface LayerMix {
+  /** Trim on top of the layer's mapped volume (1.0 = as mapped) */
+  gain: number;
+
+  /** Silence this layer */
+  muted: boolean;
+
+  /** Play only soloed layers (while any layer of the soundscape is soloed) */
+  solo: boolean;
 }
 
 /**
@@ -102,16 +214,101 @@ export interface WeatherIntensity {
   /** Thunder/storm intensity (0.0 = none, 1.0 = severe thunderstorm) */
   thunder: number;
 
-  /** Whether snow is occurring */
-  snow: boolean;
+  /** Snow intensity (0.0 = none, 1.0 = heavy snowfall) */
+  snow: number;
 
-  /** Whether fog/mist is present */
-  fog: boolean;
+  /** Fog density (0.0 = none, 1.0 = dense/rime fog) */
+  fog: number;
 
   /** General precipitation presence (true if any precipitation) */
   hasPrecipitation: boolean;
 }
 
+/**
+ * Reverb character, each backed by a synthesized impulse response.
+ *
+ * - forest: dense, diffuse and dark (foliage scatters sound and absorbs highs)
+ * - city: brighter, with discrete slap-back echoes off buildings
+ * - open: short and sparse (little nearby to reflect off)
+ */
+export type ReverbSpace = 'forest' | 'city' | 'open';
+
+/**
+ * Settings for the effects stage between the tracks and the master gain.
+ */
+export interface SoundEffects {
+  /** Low-pass cutoff in Hz (20000 = open; lower muffles the mix) */
+  lowpassFrequency: number;
+
+  /** High-shelf gain in dB (0 = flat; negative dulls the highs) */
+  highShelfGain: number;
+
+  /** Reverb space and wet level (0.0 to 1.0), or null for a dry mix */
+  reverb: { space: ReverbSpace; mix: number } | null;
+}
+
+/**
+ * Loading priority for audio files.
+ *
+ * - critical: Needed before playback can start (base layers of the current soundscape)
+ * - normal: Rest of the current soundscape (starts as soon as it's ready)
+ * - background: Everything else, loaded lazily for later soundscapes
+ */
+export type LoadPriority = 'critical' | 'normal' | 'background';
+
+/**
+ * Stage of a single audio file in the loader.
+ */
+export type SoundLoadStatus = 'queued' | 'downloading' | 'decoding' | 'loaded' | 'failed';
+
+/**
+ * Progress event emitted by AudioManager for each audio file it loads.
+ */
+export interface SoundLoadEvent {
+  /** Sound being loaded */
+  soundId: string;
+
+  /** Current stage */
+  status: SoundLoadStatus;
+
+  /** Fraction of this file completed (0.0 to 1.0; 1.0 once loaded or failed) */
+  progress: number;
+
+  /** Priority the file is currently queued/loading at */
+  priority: LoadPriority;
+}
+
+/**
+ * Options for rendering a soundscape to an audio file.
+ */
+export interface OfflineRenderOptions {
+  /** Length of the recording in seconds */
+  duration: number;
+
+  /** Output sample rate in Hz (default: 44100) */
+  sampleRate?: number;
+
+  /** Fade-out over the end of the recording in seconds (default: 5) */
+  fadeOutDuration?: number;
+
+  /** Called as rendering advances with the fraction completed (0.0 to 1.0) */
+  onProgress?: (progress: number) => void;
+
+  /** Cancels the render; the returned promise rejects with an AbortError */
+  signal?: AbortSignal;
+}
+
+/**
+ * Change of the sleep timer, as reported to AudioController listeners.
+ */
+export interface SleepTimerEvent {
+  /** When the soundscape stops (epoch milliseconds), or null if no timer is running */
+  endsAt: number | null;
+
+  /** True when the timer ran out and stopped the soundscape (false when set or cancelled) */
+  completed: boolean;
+}
+
 /**
  * Audio system initialization state.
  */
@@ -134,3 +331,37 @@ export interface AudioSystemState {
   /** List of sound IDs that failed to load */
   failedLoads: string[];
 }
+
+/**
+ * Loudness analysis of one audio file (generated by `npm run analyze-loudness`).
+ */
+export interface SoundAnalysis {
+  /** File path relative to public/audio */
+  path: string;
+
+  /** Length in seconds */
+  duration: number;
+
+  /** Integrated loudness in LUFS (ITU-R BS.1770), or null if the file is silent */
+  loudness: number | null;
+
+  /** Sample peak in dBFS, or null if the file is silent */
+  peak: number | null;
+
+  /** Linear gain that brings the file to the manifest's target loudness */
+  gain: number;
+}
+
+/**
+ * Generated manifest of per-file loudness and normalization gains.
+ */
+export interface SoundManifest {
+  /** Integrated loudness every file is normalized to (LUFS) */
+  targetLoudness: number;
+
+  /** Peak ceiling the normalization gain respects (dBFS) */
+  maxPeak: number;
+
+  /** Analysis per sound ID */
+  sounds: Record<string, SoundAnalysis>;
+}
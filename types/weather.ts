@@ -13,12 +13,39 @@ export interface GeocodingResult {
   admin2?: string;
   country_code: string;
   feature_code?: string;
+  population?: number;
 }
 
 export interface GeocodingResponse {
   results?: GeocodingResult[];
 }
 
+// Nominatim (OpenStreetMap) Reverse Geocoding API Response
+export interface ReverseGeocodingResponse {
+  name?: string;
+  display_name?: string;
+  address?: {
+    city?: string;
+    town?: string;
+    village?: string;
+    hamlet?: string;
+    municipality?: string;
+    county?: string;
+    state?: string;
+    region?: string;
+    country?: string;
+    country_code?: string;
+  };
+  error?: string;
+}
+
+// Display name for a place, as shown in WeatherData.location
+export interface PlaceName {
+  name: string;
+  region: string;
+  country: string;
+}
+
 // Open-Meteo Forecast API Response
 export interface OpenMeteoForecast {
   latitude: number;
@@ -26,6 +53,7 @@ export interface OpenMeteoForecast {
   elevation: number;
   timezone: string;
   timezone_abbreviation: string;
+  utc_offset_seconds: number;
   current: {
     time: string;
     temperature_2m: number;
@@ -43,6 +71,66 @@ export interface OpenMeteoForecast {
     wind_speed_10m: string;
     wind_direction_10m: string;
   };
+  hourly: {
+    time: string[];
+    temperature_2m: number[];
+    relative_humidity_2m: number[];
+    weather_code: number[];
+    precipitation_probability: number[];
+    wind_speed_10m: number[];
+    wind_direction_10m: number[];
+  };
+  daily: {
+    time: string[];
+    weather_code: number[];
+    temperature_2m_max: number[];
+    temperature_2m_min: number[];
+    precipitation_probability_max: number[];
+    wind_speed_10m_max: number[];
+    wind_direction_10m_dominant: number[];
+    sunrise: string[];
+    sunset: string[];
+  };
+}
+
+// Sunrise/sunset in the location's local time (ISO 8601, no offset)
+export interface SunTimes {
+  sunrise: string;
+  sunset: string;
+}
+
+// Weather condition summary (shared by current and forecast entries)
+export interface WeatherSummary {
+  text: string;
+  code: number;
+}
+
+// One hour of forecast, in the location's local time
+export interface HourlyForecast {
+  time: string;
+  temp_f: number;
+  temp_c: number;
+  condition: WeatherSummary;
+  precipitation_probability: number;
+  humidity: number;
+  wind_mph: number;
+  wind_kph: number;
+  wind_dir: number;
+}
+
+// One day of forecast, in the location's local time
+export interface DailyForecast {
+  date: string;
+  max_temp_f: number;
+  max_temp_c: number;
+  min_temp_f: number;
+  min_temp_c: number;
+  condition: WeatherSummary;
+  precipitation_probability: number;
+  max_wind_mph: number;
+  max_wind_kph: number;
+  wind_dir: number;
+  sun: SunTimes;
 }
 
 // Unified Weather Data for the app
@@ -56,10 +144,7 @@ export interface WeatherData {
   current: {
     temp_f: number;
     temp_c: number;
-    condition: {
-      text: string;
-      code: number;
-    };
+    condition: WeatherSummary;
     wind_mph: number;
     wind_kph: number;
     wind_dir: number;
@@ -67,6 +152,13 @@ export interface WeatherData {
     feelslike_f: number;
     feelslike_c: number;
   };
+  sun: SunTimes;
+  forecast: {
+    /** Next 48 hours starting at the current local hour */
+    hourly: HourlyForecast[];
+    /** Next 7 days starting today */
+    daily: DailyForecast[];
+  };
   biome: {
     type: BiomeType;
     coordinates: {